@@ -1,14 +1,14 @@
 import { NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
 import { AuthService } from '@/lib/auth';
 
 export async function POST(request: Request) {
   try {
-    const { email, password } = await request.json();
+    // `service` selects an LDAP/AD service, which logs in by username
+    const { email, username, password, service } = await request.json();
 
-    if (!email || !password) {
+    if (!(email || username) || !password) {
       return NextResponse.json(
-        { error: 'Email and password are required' },
+        { error: 'Email or username and password are required' },
         { status: 400 }
       );
     }
@@ -18,27 +18,17 @@ export async function POST(request: Request) {
     );
 
     try {
-      const session = await authService.login(email, password);
+      const session = await authService.login(
+        username ? { username, password } : { email, password },
+        service || undefined
+      );
 
       // Set session token in an HTTP-only cookie
-      const cookieStore = cookies();
-      cookieStore.set('df_session_token', session.session_token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: 60 * 60, // 1 hour
-      });
+      AuthService.setSessionCookie(session.session_token);
 
       return NextResponse.json({
         success: true,
-        user: {
-          id: session.id,
-          email: session.email,
-          name: session.name,
-          first_name: session.first_name,
-          last_name: session.last_name,
-          role: session.role,
-        },
+        user: AuthService.toSessionUser(session),
       });
     } catch (error) {
       console.error('Login error:', error);
@@ -12,7 +12,7 @@ export async function POST() {
 
     // Remove the session cookie
     const cookieStore = cookies();
-    cookieStore.delete('df_session_token');
+    cookieStore.delete(AuthService.SESSION_COOKIE);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { AuthService } from '@/lib/auth';
+
+// Receives the OAuth provider's redirect, exchanges it for a DreamFactory
+// session and returns to the chat with the usual session cookie set
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const cookieStore = cookies();
+  const service = cookieStore.get(AuthService.OAUTH_SERVICE_COOKIE)?.value;
+  cookieStore.delete(AuthService.OAUTH_SERVICE_COOKIE);
+
+  try {
+    const providerError = url.searchParams.get('error_description') || url.searchParams.get('error');
+    if (providerError) {
+      throw new Error(providerError);
+    }
+    if (!service) {
+      throw new Error('The OAuth login expired. Please try again.');
+    }
+
+    const authService = new AuthService(
+      process.env.DREAMFACTORY_URL || 'http://localhost:8080'
+    );
+    const session = await authService.completeOAuthLogin(service, url.searchParams);
+    AuthService.setSessionCookie(session.session_token);
+
+    return NextResponse.redirect(new URL('/', request.url));
+  } catch (error) {
+    console.error('OAuth callback error:', error);
+    const loginError = error instanceof Error ? error.message : 'OAuth login failed';
+    return NextResponse.redirect(new URL(`/?login_error=${encodeURIComponent(loginError)}`, request.url));
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { AuthService } from '@/lib/auth';
+
+// Starts an OAuth login by redirecting to the provider. The DreamFactory
+// OAuth service's redirect URL must point at /api/auth/oauth/callback.
+export async function GET(request: Request) {
+  const service = new URL(request.url).searchParams.get('service');
+
+  if (!service) {
+    return NextResponse.json(
+      { error: 'service is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const authService = new AuthService(
+      process.env.DREAMFACTORY_URL || 'http://localhost:8080'
+    );
+    const redirectUrl = await authService.getOAuthRedirectUrl(service);
+
+    const cookieStore = cookies();
+    cookieStore.set(AuthService.OAUTH_SERVICE_COOKIE, service, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: 10 * 60, // 10 minutes
+    });
+
+    return NextResponse.redirect(redirectUrl);
+  } catch (error) {
+    console.error('OAuth login error:', error);
+    const loginError = error instanceof Error ? error.message : 'Failed to start OAuth login';
+    return NextResponse.redirect(new URL(`/?login_error=${encodeURIComponent(loginError)}`, request.url));
+  }
+}
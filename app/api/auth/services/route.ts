@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { AuthService } from '@/lib/auth';
+
+// Lists the ways of logging in that DreamFactory offers
+export async function GET() {
+  try {
+    const authService = new AuthService(
+      process.env.DREAMFACTORY_URL || 'http://localhost:8080'
+    );
+
+    return NextResponse.json(await authService.getLoginOptions());
+  } catch (error) {
+    console.error('Login services error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load login services' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { AuthService, SessionExpiredError } from '@/lib/auth';
+
+// Returns the logged-in user, so the page can restore its state after a reload
+export async function GET() {
+  try {
+    const authService = new AuthService(
+      process.env.DREAMFACTORY_URL || 'http://localhost:8080'
+    );
+
+    const sessionToken = await authService.ensureFreshSession();
+    const session = await authService.getSession(sessionToken);
+
+    return NextResponse.json({
+      authenticated: true,
+      user: AuthService.toSessionUser(session),
+    });
+  } catch (error) {
+    if (error instanceof SessionExpiredError) {
+      return NextResponse.json(
+        { authenticated: false },
+        { status: 401 }
+      );
+    }
+
+    console.error('Session error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load session' },
+      { status: 500 }
+    );
+  }
+}
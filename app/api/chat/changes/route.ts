@@ -0,0 +1,165 @@
+import { NextResponse } from 'next/server';
+import { AuthService, SessionExpiredError, sessionExpiredResponse } from '@/lib/auth';
+import { DreamFactoryTool } from '@/lib/dreamfactory';
+import { ConversationStore } from '@/lib/conversations';
+import { Conversation, DreamFactoryRequestLog, RecordChange, TraceStep } from '@/lib/types';
+
+export const runtime = "nodejs";
+export const preferredRegion = ["iad1"];
+
+function findChange(conversation: Conversation, changeId: string): RecordChange | undefined {
+  return conversation.changes?.find(item => item.id === changeId);
+}
+
+// Pending changes, and failed ones, which can be approved again
+function isOpen(change: RecordChange): boolean {
+  return change.status === 'pending' || change.status === 'failed';
+}
+
+// Another request decided on the change after this one loaded it
+function changeInProgress() {
+  return NextResponse.json(
+    { error: 'Change is already being processed' },
+    { status: 409 }
+  );
+}
+
+// Approves or rejects a record change proposed during a chat turn
+export async function POST(request: Request) {
+  try {
+    const authService = new AuthService(
+      process.env.DREAMFACTORY_URL || 'http://localhost:8080'
+    );
+    const sessionToken = await authService.ensureFreshSession();
+
+    const { conversationId, changeId, approve } = await request.json();
+
+    if (!conversationId || !changeId || typeof approve !== 'boolean') {
+      return NextResponse.json(
+        { error: 'conversationId, changeId and approve are required' },
+        { status: 400 }
+      );
+    }
+
+    const conversationStore = new ConversationStore(await authService.getUserId(sessionToken));
+    const conversation = await conversationStore.get(conversationId);
+    const change = conversation?.changes?.find(item => item.id === changeId);
+
+    if (!conversation || !change) {
+      return NextResponse.json(
+        { error: 'Change not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!isOpen(change)) {
+      return NextResponse.json(
+        { error: `Change has already been ${change.status}` },
+        { status: 409 }
+      );
+    }
+
+    // Decisions are made on the latest stored copy, so that a chat turn
+    // saved meanwhile is kept and a second decision finds the first
+    if (!approve) {
+      const rejected = await conversationStore.saveUpdate(conversation, latest => {
+        const current = findChange(latest, changeId);
+        if (!current || !isOpen(current)) return false;
+        current.status = 'rejected';
+        latest.messages.push({
+          role: 'assistant',
+          content: `The user rejected the proposed change: ${current.summary}`,
+        });
+        ConversationStore.recordChangeDecision(latest, current);
+      });
+      if (!rejected) return changeInProgress();
+
+      return NextResponse.json({ change: findChange(rejected, changeId) });
+    }
+
+    // Claim the change before writing, so that a double click or retry
+    // can't apply it twice
+    const claimed = await conversationStore.saveUpdate(conversation, latest => {
+      const current = findChange(latest, changeId);
+      if (!current || !isOpen(current)) return false;
+      current.status = 'applying';
+      current.applyingSince = new Date().toISOString();
+      current.error = undefined;
+      ConversationStore.recordChangeDecision(latest, current);
+    });
+    const claimedChange = claimed && findChange(claimed, changeId);
+    if (!claimed || !claimedChange) return changeInProgress();
+
+    const requests: DreamFactoryRequestLog[] = [];
+    const dreamFactory = new DreamFactoryTool(
+      process.env.DREAMFACTORY_URL || 'http://localhost:8080'
+    ).withRequestLogger(log => requests.push(log));
+
+    const step: TraceStep = {
+      id: `change-${changeId}`,
+      tool: 'applyRecordChange',
+      args: {
+        serviceName: claimedChange.serviceName,
+        tableName: claimedChange.tableName,
+        operation: claimedChange.operation,
+        records: claimedChange.records,
+      },
+      requests,
+      durationMs: 0,
+      preview: '',
+    };
+    const startedAt = Date.now();
+
+    let outcome: Pick<RecordChange, 'status' | 'error'>;
+    try {
+      const result = await dreamFactory.applyChange(claimedChange);
+      outcome = { status: 'applied' };
+      step.rowCount = result.resource?.length;
+      step.preview = JSON.stringify(result).slice(0, 500);
+    } catch (error) {
+      // Put the change back to pending so it can be approved after logging in again
+      if (error instanceof SessionExpiredError) {
+        await conversationStore.saveUpdate(claimed, latest => {
+          const current = findChange(latest, changeId);
+          if (current?.status !== 'applying') return false;
+          current.status = 'pending';
+          current.applyingSince = undefined;
+          ConversationStore.recordChangeDecision(latest, current);
+        });
+        throw error;
+      }
+      console.error('Apply change error:', error);
+      outcome = { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+      step.error = outcome.error;
+    }
+    step.durationMs = Date.now() - startedAt;
+
+    const finished = await conversationStore.saveUpdate(claimed, latest => {
+      const current = findChange(latest, changeId);
+      if (!current) return false;
+      Object.assign(current, outcome, { applyingSince: undefined });
+      latest.messages.push({
+        role: 'assistant',
+        content: current.status === 'applied'
+          ? `The user approved the proposed change and it was applied: ${current.summary}`
+          : `The user approved the proposed change but it failed: ${current.error}`,
+      });
+      ConversationStore.recordChangeDecision(latest, current, step);
+    });
+    const finishedChange = (finished && findChange(finished, changeId)) || { ...claimedChange, ...outcome, applyingSince: undefined };
+
+    return NextResponse.json(
+      { change: finishedChange, step },
+      { status: finishedChange.status === 'applied' ? 200 : 502 }
+    );
+  } catch (error) {
+    if (error instanceof SessionExpiredError) {
+      return sessionExpiredResponse(error);
+    }
+    console.error('Change request error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process change request' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,35 +1,33 @@
 import { NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
-import { DreamFactoryTool } from '@/lib/dreamfactory';
-import { OpenAIService } from '@/lib/openai';
-import { ChatMessage } from '@/lib/types';
-import { AuthService } from '@/lib/auth';
-
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error('Missing OPENAI_API_KEY environment variable');
-}
+import { AccessDeniedError, DreamFactoryTool } from '@/lib/dreamfactory';
+import { ChatLoopResult, OpenAIService } from '@/lib/openai';
+import { createProviderFromEnv } from '@/lib/llm';
+import { ChatMessage, ChatTurnResult } from '@/lib/types';
+import { AuthService, SessionExpiredError } from '@/lib/auth';
+import { ConversationStore, getConversationBackend } from '@/lib/conversations';
+import { MissingApiKeyError } from '@/lib/credentials';
+import { SchemaCache } from '@/lib/cache';
+import { SchemaDigest } from '@/lib/digest';
+import { chatEventStream } from '@/lib/chat-stream';
 
 if (!process.env.SERPER_API_KEY) {
   throw new Error('Missing SERPER_API_KEY environment variable');
 }
 
-// Configure for Netlify Edge Functions using new Next.js format
-export const runtime = "edge";
+// Node.js, so that answers are saved to the conversation store directly
+export const runtime = "nodejs";
 export const preferredRegion = ["iad1"];
 
 export async function POST(request: Request) {
   try {
-    const cookieStore = cookies();
-    const sessionToken = cookieStore.get('df_session_token')?.value;
-
-    if (!sessionToken) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
+    // Refresh the session before streaming starts, since cookies can't be
+    // updated once the response has begun
+    const authService = new AuthService(
+      process.env.DREAMFACTORY_URL || 'http://localhost:8080'
+    );
+    const sessionToken = await authService.ensureFreshSession();
 
-    const { message } = await request.json();
+    const { message, conversationId, stream } = await request.json();
 
     if (!message) {
       return NextResponse.json(
@@ -38,16 +36,31 @@ export async function POST(request: Request) {
       );
     }
 
-    const dreamFactory = new DreamFactoryTool(
-      process.env.DREAMFACTORY_URL || 'http://localhost:8080'
-    );
+    // Schemas are shared between requests of users with the same role
+    const dreamFactoryUrl = process.env.DREAMFACTORY_URL || 'http://localhost:8080';
+    const schemaCache = new SchemaCache(dreamFactoryUrl, await authService.getRole(sessionToken));
+    const dreamFactory = new DreamFactoryTool(dreamFactoryUrl, schemaCache);
+    const schemaDigest = await buildSchemaDigest(dreamFactoryUrl, schemaCache);
 
+    // LLM_PROVIDER selects OpenAI, an OpenAI-compatible server or Anthropic
     const openai = new OpenAIService(
-      process.env.OPENAI_API_KEY as string,
+      createProviderFromEnv(),
       dreamFactory,
-      process.env.SERPER_API_KEY as string
+      process.env.SERPER_API_KEY as string,
+      {
+        maxIterations: Number(process.env.CHAT_MAX_TOOL_ITERATIONS) || undefined,
+        timeBudgetMs: Number(process.env.CHAT_TOOL_TIME_BUDGET_MS) || undefined,
+        maxRepeatedCalls: Number(process.env.CHAT_MAX_REPEATED_TOOL_CALLS) || undefined,
+      }
     );
 
+    const conversationStore = new ConversationStore(
+      await authService.getUserId(sessionToken),
+      getConversationBackend()
+    );
+    const conversation = await conversationStore.getOrCreate(conversationId);
+    const history = ConversationStore.toHistory(conversation);
+
     const messages: ChatMessage[] = [
       {
         role: 'system',
@@ -58,19 +71,31 @@ Your goal is to help users by providing comprehensive answers using:
 3. Your general knowledge when appropriate
 
 IMPORTANT: Always follow this EXACT process for EVERY database-related request:
-
+${schemaDigest ? `
+KNOWN SCHEMA (services, tables, key columns, foreign keys and relationships
+you can access; PK marks primary keys, "+N more" means unlisted columns):
+${schemaDigest}
+
+When the tables and fields you need are listed above, skip Phase 1 and go
+straight to queryTable or aggregateTable. Use Phase 1 only for what is missing.
+` : ''}
 <thinking>
-PHASE 1: Schema Discovery (MANDATORY)
+PHASE 1: Schema Discovery (MANDATORY unless covered by the known schema)
 1. List Available Services
    - FIRST, call listServices() to see available services
    - Example response: ["sqlserver", "mysql", etc.]
    - Select the appropriate service for your query
+   - listServices and listTables only return what the user's role can
+     access. If a tool returns "access_denied", do not retry it: use another
+     table or service, or explain that the role lacks access
 
 2. List Available Tables
    - NEXT, call listTables(serviceName) to get all table names
    - Example: listTables("sqlserver")
    - Example response: ["Application.Cities", "Application.StateProvinces", etc.]
    - NEVER assume table names exist - always verify first
+   - To find which tables hold a kind of data (e.g. "salary" or "surname"),
+     call findColumns(serviceName, query) instead of reading every schema
 
 3. Get Table Schemas
    - For EACH relevant table, call getTableSchema(serviceName, tableName)
@@ -92,15 +117,29 @@ PHASE 1: Schema Discovery (MANDATORY)
 
 PHASE 2: Query Construction
 1. Use ONLY verified table names and fields from schema
-2. Use EXACT relationship names from schema
-3. Build filters using verified field names:
-   - Single condition: "(CityName='Abbeville')"
-   - Multiple conditions: "(CityName='Abbeville') and (StateProvinceID=1)"
+2. Use EXACT relationship names from schema. To combine two tables, call
+   findJoinPath(serviceName, fromTable, toTable) and pass the relationship
+   names it returns as related, instead of guessing them
+3. Build filters as structured JSON using verified field names:
+   - Single condition: {"op": "eq", "field": "CityName", "value": "Abbeville"}
+   - Multiple conditions: {"op": "and", "conditions": [{"op": "eq", "field": "CityName", "value": "Abbeville"}, {"op": "eq", "field": "StateProvinceID", "value": 1}]}
+4. For counts, sums, averages, minimums or maximums call aggregateTable
+   instead of fetching rows, and quote the numbers it returns exactly
+5. To create, update or delete records call proposeRecordChange. Changes
+   only run after the user approves them, so never claim a change was made
+6. To find a record by a person's or thing's name (e.g. "Georgi Facello"),
+   call searchEntities(serviceName, term) rather than guessing name fields.
+   If several records match, say so and use their primary keys
 
 PHASE 3: Data Processing
 1. Check if response contains data
 2. Navigate nested relationships correctly
 3. If data is missing, use web search or general knowledge
+4. The records of your last queryTable call are shown to the user as a
+   table below your answer, so summarize them instead of listing every row
+5. When the user asks to plot or chart data, or a trend is clearer as a
+   chart, fetch the rows (grouped with aggregateTable where possible), then
+   call renderChart with the fields to plot
 
 PHASE 4: Web Search (if needed)
 1. Construct clear search queries
@@ -156,64 +195,187 @@ Query Details:
 - Relationships: Application.StateProvinces_by_StateProvinceID
 - Fields: CityName, StateProvinceID, SalesTerritory"`,
       },
+      ...history,
       {
         role: 'user',
         content: message,
       },
     ];
-
-    try {
-      const { response, endpoints } = await openai.chat(messages);
-      
-      // Extract thinking block and final response
-      let thinking = '';
-      let finalResponse = response;
-      
-      const thinkingMatch = response.match(/<thinking>([\s\S]*?)<\/thinking>/);
-      if (thinkingMatch) {
-        thinking = thinkingMatch[1].trim();
-        finalResponse = response.replace(/<thinking>[\s\S]*?<\/thinking>/, '').trim();
+    // Index of the new user turn; everything from here on is persisted
+    const turnStart = messages.length - 1;
+
+    // Persist the user turn, intermediate tool turns and the answer
+    const finishTurn = async ({
+      response,
+      endpoints,
+      trace,
+      changes,
+      table,
+      charts,
+    }: ChatLoopResult): Promise<ChatTurnResult> => {
+      const { message: finalResponse, thinking } = splitThinking(response);
+      const turnMessages = messages.slice(turnStart);
+      const messageId = crypto.randomUUID();
+      const userMessageId = crypto.randomUUID();
+      // Shares of the answer are only shown to viewers who can read all of these
+      const resources = await dreamFactory.getReadResources();
+
+      // Added to the latest stored copy, so that a change decided through
+      // /api/chat/changes while the model was answering is kept
+      const saved = await conversationStore.saveUpdate(conversation, latest => {
+        latest.messages.push(...turnMessages, {
+          role: 'assistant',
+          content: finalResponse,
+        });
+        latest.changes = [...(latest.changes || []), ...changes];
+        latest.title = latest.title || ConversationStore.titleFrom(message);
+        latest.transcript.push(
+          { id: userMessageId, role: 'user', content: message },
+          { id: messageId, role: 'assistant', content: finalResponse, thinking, endpoints, trace, changes, table, charts, resources }
+        );
+      });
+      if (saved) {
+        await conversationStore.saveCompacted(saved, (older, previousSummary) =>
+          openai.summarize(older, previousSummary)
+        );
+      } else {
+        console.warn(`Conversation ${conversation.id} was deleted while answering; the turn was not saved`);
       }
 
-      return NextResponse.json({ 
+      return {
         message: finalResponse,
         thinking: thinking,
-        endpoints: endpoints 
-      });
+        endpoints: endpoints,
+        trace: trace,
+        changes: changes,
+        table: table,
+        charts: charts,
+        conversationId: conversation.id,
+        messageId: messageId
+      };
+    };
+
+    if (stream) {
+      return streamChat(openai, messages, finishTurn);
+    }
+
+    try {
+      return NextResponse.json(await finishTurn(await openai.chat(messages)));
     } catch (error) {
       console.error('OpenAI/DreamFactory error:', error);
 
-      // Check if this is a DreamFactory error
-      if (error instanceof Error && (
-        error.name === 'DreamFactoryError' || 
-        (error.message.includes('403') && error.message.includes('Access Forbidden'))
-      )) {
-        // Extract the component name from the error message if possible
-        const componentMatch = error.message.match(/component '([^']+)'/);
-        const component = componentMatch ? componentMatch[1] : 'the requested resource';
-        
-        return NextResponse.json(
-          { 
-            error: `You don't have permission to access ${component}. Please contact your DreamFactory administrator to request access to this resource.`,
-            type: 'permission_denied'
-          },
-          { status: 403 }
-        );
-      }
-
-      // Re-throw other errors to be handled by outer catch
-      throw error;
+      const { status, body } = toErrorResponse(error);
+      return NextResponse.json(body, { status });
     }
   } catch (error) {
     console.error('Chat error:', error);
 
-    // Handle all other errors
-    return NextResponse.json(
-      { 
-        error: 'An error occurred while processing your request. Please try again or contact support if the problem persists.',
-        type: 'internal_error'
-      },
-      { status: 500 }
+    const { status, body } = toErrorResponse(error);
+    return NextResponse.json(body, { status });
+  }
+}
+
+// Streams the chat as server-sent events: tool activity and DreamFactory
+// endpoints as they happen, answer tokens as they arrive and a final `done`
+// event carrying the same payload as the JSON response
+function streamChat(
+  openai: OpenAIService,
+  messages: ChatMessage[],
+  finishTurn: (result: ChatLoopResult) => Promise<ChatTurnResult>
+): Response {
+  return chatEventStream(
+    async send => ({ type: 'done', ...(await finishTurn(await openai.chat(messages, send))) }),
+    error => {
+      console.error('OpenAI/DreamFactory error:', error);
+
+      const { body } = toErrorResponse(error);
+      return { type: 'error', error: body.error, errorType: body.type };
+    }
+  );
+}
+
+// Summarizes the accessible schema for the system prompt. Built with its own
+// tool so its requests don't show up among the answer's endpoints.
+// SCHEMA_DIGEST_MAX_CHARS sets its size; 0 turns it off.
+async function buildSchemaDigest(dreamFactoryUrl: string, schemaCache: SchemaCache): Promise<string> {
+  const maxChars = Number(process.env.SCHEMA_DIGEST_MAX_CHARS);
+  if (process.env.SCHEMA_DIGEST_MAX_CHARS && maxChars === 0) return '';
+
+  try {
+    return await SchemaDigest.get(
+      new DreamFactoryTool(dreamFactoryUrl, schemaCache),
+      schemaCache,
+      maxChars || undefined
     );
+  } catch (error) {
+    // The model can still discover the schema with tools
+    if (error instanceof SessionExpiredError) throw error;
+    console.error('Schema digest error:', error);
+    return '';
+  }
+}
+
+// Extract thinking blocks and final response
+function splitThinking(response: string): { message: string; thinking: string } {
+  const thinkingBlocks = Array.from(response.matchAll(/<thinking>([\s\S]*?)<\/thinking>/g));
+  if (thinkingBlocks.length === 0) {
+    return { message: response, thinking: '' };
   }
-} 
\ No newline at end of file
+
+  return {
+    message: response.replace(/<thinking>[\s\S]*?<\/thinking>/g, '').trim(),
+    thinking: thinkingBlocks.map(block => block[1].trim()).join('\n\n'),
+  };
+}
+
+function toErrorResponse(error: unknown): { status: number; body: { error: string; type: string } } {
+  // Check if this is a DreamFactory error
+  if (error instanceof Error && (
+    error instanceof AccessDeniedError ||
+    error.name === 'DreamFactoryError' || 
+    (error.message.includes('403') && error.message.includes('Access Forbidden'))
+  )) {
+    // Extract the component name from the error message if possible
+    const componentMatch = error.message.match(/component '([^']+)'/);
+    const component = componentMatch ? componentMatch[1] : 'the requested resource';
+
+    return {
+      status: 403,
+      body: {
+        error: `You don't have permission to access ${component}. Please contact your DreamFactory administrator to request access to this resource.`,
+        type: 'permission_denied'
+      }
+    };
+  }
+
+  // The user needs to log in again; the conversation is kept on the server
+  if (error instanceof SessionExpiredError) {
+    return {
+      status: 401,
+      body: {
+        error: error.message,
+        type: 'session_expired'
+      }
+    };
+  }
+
+  // No DreamFactory app key could be resolved for this request
+  if (error instanceof MissingApiKeyError) {
+    return {
+      status: 500,
+      body: {
+        error: error.message,
+        type: 'configuration_error'
+      }
+    };
+  }
+
+  // Handle all other errors
+  return {
+    status: 500,
+    body: {
+      error: 'An error occurred while processing your request. Please try again or contact support if the problem persists.',
+      type: 'internal_error'
+    }
+  };
+}
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { AuthService, SessionExpiredError, sessionExpiredResponse } from '@/lib/auth';
+import { ConversationStore } from '@/lib/conversations';
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+async function getConversationStore(): Promise<ConversationStore> {
+  const authService = new AuthService(
+    process.env.DREAMFACTORY_URL || 'http://localhost:8080'
+  );
+  const sessionToken = await authService.ensureFreshSession();
+  return new ConversationStore(await authService.getUserId(sessionToken));
+}
+
+function toErrorResponse(error: unknown, action: string) {
+  if (error instanceof SessionExpiredError) {
+    return sessionExpiredResponse(error);
+  }
+  console.error(`Conversation ${action} error:`, error);
+  return NextResponse.json(
+    { error: `Failed to ${action} the conversation` },
+    { status: 500 }
+  );
+}
+
+// The conversation as displayed, for reopening it
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const conversation = await (await getConversationStore()).get(params.id);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const { id, title, pinned, transcript, createdAt, updatedAt } = conversation;
+    return NextResponse.json({
+      conversation: { id, title, pinned: Boolean(pinned), transcript, createdAt, updatedAt },
+    });
+  } catch (error) {
+    return toErrorResponse(error, 'load');
+  }
+}
+
+// Renames or pins the conversation: { title?, pinned? }
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { title, pinned } = await request.json();
+
+    if ((title !== undefined && (typeof title !== 'string' || !title.trim())) ||
+        (pinned !== undefined && typeof pinned !== 'boolean')) {
+      return NextResponse.json(
+        { error: 'title must be a non-empty string and pinned a boolean' },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await (await getConversationStore()).update(params.id, { title, pinned });
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    return toErrorResponse(error, 'update');
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    await (await getConversationStore()).delete(params.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return toErrorResponse(error, 'delete');
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { AuthService, SessionExpiredError, sessionExpiredResponse } from '@/lib/auth';
+import { ConversationStore } from '@/lib/conversations';
+
+export const runtime = "nodejs";
+
+// Lists the signed-in user's conversations, pinned first. ?q= keeps those
+// whose title or messages contain the text.
+export async function GET(request: Request) {
+  try {
+    const authService = new AuthService(
+      process.env.DREAMFACTORY_URL || 'http://localhost:8080'
+    );
+    const sessionToken = await authService.ensureFreshSession();
+    const search = new URL(request.url).searchParams.get('q') || undefined;
+
+    const conversationStore = new ConversationStore(await authService.getUserId(sessionToken));
+    return NextResponse.json({ conversations: await conversationStore.list(search) });
+  } catch (error) {
+    if (error instanceof SessionExpiredError) {
+      return sessionExpiredResponse(error);
+    }
+    console.error('Conversation list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load conversations' },
+      { status: 500 }
+    );
+  }
+}
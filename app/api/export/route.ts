@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AccessDeniedError, DreamFactoryTool } from '@/lib/dreamfactory';
+import { AuthService, SessionExpiredError, sessionExpiredResponse } from '@/lib/auth';
+import { SchemaCache } from '@/lib/cache';
+import { ConversationStore } from '@/lib/conversations';
+import { ShareStore } from '@/lib/shares';
+import { EXPORT_CONTENT_TYPES, ResultExporter } from '@/lib/export';
+import { FilterError, filterNodeSchema } from '@/lib/filters';
+import type { TranscriptEntry } from '@/lib/types';
+
+// Workbooks are written with Node APIs
+export const runtime = "nodejs";
+
+const exportRequestSchema = z
+  .object({
+    format: z.enum(['csv', 'xlsx', 'json']),
+    messageId: z.string().min(1),
+    conversationId: z.string().min(1).optional(),
+    shareId: z.string().min(1).optional(),
+  })
+  .refine(body => Boolean(body.conversationId) !== Boolean(body.shareId));
+
+// Downloads every row of an answer's result table as CSV, XLSX or JSON. The
+// query is the one stored with the answer, in the user's conversation or in
+// a share link they may open, and runs with the user's session, so the
+// role's permissions still apply.
+export async function POST(request: Request) {
+  try {
+    const authService = new AuthService(
+      process.env.DREAMFACTORY_URL || 'http://localhost:8080'
+    );
+    const sessionToken = await authService.ensureFreshSession();
+
+    const parsed = exportRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'format (csv, xlsx or json), messageId and either conversationId or shareId are required' },
+        { status: 400 }
+      );
+    }
+    const { format, messageId, conversationId, shareId } = parsed.data;
+
+    const dreamFactoryUrl = process.env.DREAMFACTORY_URL || 'http://localhost:8080';
+    const dreamFactory = new DreamFactoryTool(
+      dreamFactoryUrl,
+      new SchemaCache(dreamFactoryUrl, await authService.getRole(sessionToken))
+    );
+    const userId = await authService.getUserId(sessionToken);
+
+    let entries: TranscriptEntry[] | undefined;
+    if (shareId) {
+      const store = new ShareStore(userId);
+      const share = await store.get(shareId);
+      if (share && ShareStore.status(share) === 'active' && await store.canView(share, dreamFactory)) {
+        entries = share.entries;
+      }
+    } else if (conversationId) {
+      entries = (await new ConversationStore(userId).get(conversationId))?.transcript;
+    }
+
+    const query = entries?.find(entry => entry.id === messageId)?.table?.query;
+    if (!query) {
+      return NextResponse.json({ error: 'Result table not found' }, { status: 404 });
+    }
+    // Stored queries are only as trustworthy as the store
+    if (query.filter !== undefined && !filterNodeSchema.safeParse(query.filter).success) {
+      throw new FilterError('The stored filter is invalid');
+    }
+
+    const { pages, total, rowCount, truncated } = await dreamFactory.exportRows(query);
+
+    return new Response(ResultExporter.stream(pages, format, query.tableName), {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${ResultExporter.fileName(query.tableName, format)}"`,
+        'Cache-Control': 'no-store',
+        ...(rowCount !== undefined && { 'X-Export-Rows': String(rowCount) }),
+        ...(total !== undefined && { 'X-Export-Total': String(total) }),
+        ...(truncated && { 'X-Export-Truncated': 'true' }),
+      },
+    });
+  } catch (error) {
+    if (error instanceof SessionExpiredError) {
+      return sessionExpiredResponse(error);
+    }
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json(
+        { error: `You don't have permission to access ${error.resource}.`, type: 'permission_denied' },
+        { status: 403 }
+      );
+    }
+    if (error instanceof FilterError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Export error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export the data' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,43 +1,63 @@
 import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import { DreamFactoryTool } from '@/lib/dreamfactory';
+import { CredentialResolver } from '@/lib/credentials';
 
 export async function OPTIONS() {
   return new NextResponse(null, {
     status: 204,
     headers: {
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
       'Access-Control-Allow-Headers': 'Content-Type, X-DreamFactory-API-Key',
     },
   });
 }
 
+// Lists the DreamFactory apps configured on the server, so that a client can
+// offer a choice instead of asking for a key. `hasApiKey` is false until an
+// app or key has been chosen, when there is no single default.
+export async function GET() {
+  try {
+    return NextResponse.json({
+      apps: Object.keys(CredentialResolver.getConfiguredApps()),
+      hasDefaultKey: !!process.env.DREAMFACTORY_API_KEY,
+      hasApiKey: CredentialResolver.hasApiKey(),
+      selectedApp: CredentialResolver.getSelectedApp() || null,
+    });
+  } catch (error) {
+    console.error('App configuration error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid app configuration' },
+      { status: 500 }
+    );
+  }
+}
+
+// Selects the DreamFactory app for this browser: either a user-supplied API
+// key or the name of an app configured on the server
 export async function POST(request: Request) {
-  console.log('Received initialization request');
-  
   try {
     const body = await request.json();
-    console.log('Request body:', { 
-      hasApiKey: !!body.apiKey,
-      apiKeyLength: body.apiKey?.length
-    });
+    const { app } = body;
 
-    const { apiKey } = body;
+    if (!body.apiKey && !app) {
+      return NextResponse.json(
+        { error: 'DreamFactory API key or app name is required' },
+        { status: 400 }
+      );
+    }
 
-    if (!apiKey) {
-      console.log('No API key provided');
+    let apiKey: string;
+    try {
+      apiKey = body.apiKey || CredentialResolver.getAppKey(app);
+    } catch (error) {
       return NextResponse.json(
-        { error: 'DreamFactory API key is required' },
+        { error: error instanceof Error ? error.message : 'Unknown DreamFactory app' },
         { status: 400 }
       );
     }
 
     const dreamFactoryUrl = process.env.DREAMFACTORY_URL;
-    console.log('Environment check:', {
-      hasDreamFactoryUrl: !!dreamFactoryUrl,
-      url: dreamFactoryUrl
-    });
 
     if (!dreamFactoryUrl) {
       console.error('DREAMFACTORY_URL is not set in environment variables');
@@ -49,10 +69,7 @@ export async function POST(request: Request) {
 
     // Make a direct test request to DreamFactory
     try {
-      console.log('Making test request to DreamFactory');
       const testUrl = `${dreamFactoryUrl}/api/v2/`;  // Changed to root API endpoint
-      console.log('Test URL:', testUrl);
-      console.log('API Key being used:', apiKey);
 
       const testResponse = await fetch(testUrl, {
         method: 'GET',
@@ -62,15 +79,8 @@ export async function POST(request: Request) {
         }
       });
 
-      console.log('Test response:', {
-        status: testResponse.status,
-        ok: testResponse.ok,
-        statusText: testResponse.statusText
-      });
-
       if (!testResponse.ok) {
         const errorText = await testResponse.text();
-        console.error('Raw error response:', errorText);
         
         const errorData = JSON.parse(errorText);
         console.error('DreamFactory test request failed:', errorData);
@@ -78,11 +88,6 @@ export async function POST(request: Request) {
       }
 
       const testData = await testResponse.json();
-      console.log('Test request successful:', {
-        hasServices: !!testData.services,
-        serviceCount: testData.services?.length,
-        services: testData.services
-      });
 
       if (!testData.services) {
         throw new Error('No services found in response');
@@ -99,16 +104,19 @@ export async function POST(request: Request) {
       );
     }
 
-    // If we get here, the API key is valid
+    // If we get here, the API key is valid. Configured apps are stored by
+    // name so that their keys never reach the browser.
     const cookieStore = cookies();
-    cookieStore.set('df_api_key', apiKey, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 60 * 60, // 1 hour
-    });
+    const cookieOptions = CredentialResolver.cookieOptions(CredentialResolver.SELECTION_MAX_AGE);
+
+    if (body.apiKey) {
+      cookieStore.set(CredentialResolver.API_KEY_COOKIE, apiKey, cookieOptions);
+      cookieStore.delete(CredentialResolver.APP_COOKIE);
+    } else {
+      cookieStore.set(CredentialResolver.APP_COOKIE, app, cookieOptions);
+      cookieStore.delete(CredentialResolver.API_KEY_COOKIE);
+    }
 
-    console.log('API key stored in cookie successfully');
     return NextResponse.json({ success: true });
 
   } catch (error) {
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { AuthService, SessionExpiredError, sessionExpiredResponse } from '@/lib/auth';
+import { SchemaCache } from '@/lib/cache';
+
+// Clears the KV schema cache, which all routes share. The in-memory cache
+// belongs to each edge function and can't be reached from here.
+export const runtime = "edge";
+export const preferredRegion = ["iad1"];
+
+// Drops cached schemas after the database changes, for one service
+// (?service=name) or for all of them. Applies to every role, so only
+// system administrators may call it.
+export async function DELETE(request: Request) {
+  if (process.env.SCHEMA_CACHE_STORE !== 'kv') {
+    return NextResponse.json(
+      {
+        error: 'Clearing the schema cache requires SCHEMA_CACHE_STORE=kv. In-memory caches expire after SCHEMA_CACHE_TTL_MS.',
+        type: 'not_supported',
+      },
+      { status: 501 }
+    );
+  }
+
+  try {
+    const authService = new AuthService(
+      process.env.DREAMFACTORY_URL || 'http://localhost:8080'
+    );
+    const sessionToken = await authService.ensureFreshSession();
+    const serviceName = new URL(request.url).searchParams.get('service') || undefined;
+
+    const role = await authService.getRole(sessionToken);
+    if (role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Only administrators can clear the schema cache', type: 'permission_denied' },
+        { status: 403 }
+      );
+    }
+
+    const schemaCache = new SchemaCache(
+      process.env.DREAMFACTORY_URL || 'http://localhost:8080',
+      role
+    );
+    await schemaCache.invalidate(serviceName);
+
+    return NextResponse.json({ success: true, service: serviceName ?? null });
+  } catch (error) {
+    if (error instanceof SessionExpiredError) {
+      return sessionExpiredResponse(error);
+    }
+    console.error('Schema cache error:', error);
+    return NextResponse.json(
+      { error: 'Failed to invalidate the schema cache' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { AuthService, SessionExpiredError, sessionExpiredResponse } from '@/lib/auth';
+import { AccessDeniedError, DreamFactoryTool } from '@/lib/dreamfactory';
+import { SchemaCache } from '@/lib/cache';
+import { ShareStore } from '@/lib/shares';
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+function toErrorResponse(error: unknown, action: string) {
+  if (error instanceof SessionExpiredError) {
+    return sessionExpiredResponse(error);
+  }
+  console.error(`Share ${action} error:`, error);
+  return NextResponse.json(
+    { error: `Failed to ${action} the shared answer` },
+    { status: 500 }
+  );
+}
+
+// The snapshot behind a share link. Any logged-in user may open it while it
+// is active, as long as their role can read the same services and tables.
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const dreamFactoryUrl = process.env.DREAMFACTORY_URL || 'http://localhost:8080';
+    const authService = new AuthService(dreamFactoryUrl);
+    const sessionToken = await authService.ensureFreshSession();
+    const store = new ShareStore(await authService.getUserId(sessionToken));
+
+    const share = await store.get(params.id);
+    if (!share) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+    }
+
+    const status = ShareStore.status(share);
+    if (status !== 'active') {
+      return NextResponse.json(
+        { error: status === 'revoked' ? 'This link has been revoked' : 'This link has expired', type: status },
+        { status: 410 }
+      );
+    }
+
+    const dreamFactory = new DreamFactoryTool(
+      dreamFactoryUrl,
+      new SchemaCache(dreamFactoryUrl, await authService.getRole(sessionToken))
+    );
+    if (!(await store.canView(share, dreamFactory))) {
+      return NextResponse.json(
+        { error: "Your role doesn't have access to the data in this answer.", type: 'permission_denied' },
+        { status: 403 }
+      );
+    }
+
+    const { ownerId, ...snapshot } = share;
+    return NextResponse.json({ share: snapshot });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json(
+        { error: "Your role doesn't have access to the data in this answer.", type: 'permission_denied' },
+        { status: 403 }
+      );
+    }
+    return toErrorResponse(error, 'load');
+  }
+}
+
+// Revokes the link. Only its owner can.
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const authService = new AuthService(
+      process.env.DREAMFACTORY_URL || 'http://localhost:8080'
+    );
+    const sessionToken = await authService.ensureFreshSession();
+
+    const share = await new ShareStore(await authService.getUserId(sessionToken)).revoke(params.id);
+    if (!share) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+    }
+    return NextResponse.json({ share });
+  } catch (error) {
+    return toErrorResponse(error, 'revoke');
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AuthService, SessionExpiredError, sessionExpiredResponse } from '@/lib/auth';
+import { ConversationStore } from '@/lib/conversations';
+import { DEFAULT_SHARE_DAYS, MAX_SHARE_DAYS, ShareStore } from '@/lib/shares';
+
+export const runtime = "nodejs";
+
+const shareRequestSchema = z.object({
+  conversationId: z.string().min(1),
+  // Shares only this answer and its question; the whole conversation otherwise
+  messageId: z.string().min(1).optional(),
+  expiresInDays: z.number().int().min(1).max(MAX_SHARE_DAYS).default(DEFAULT_SHARE_DAYS),
+});
+
+async function getUserId(): Promise<string> {
+  const authService = new AuthService(
+    process.env.DREAMFACTORY_URL || 'http://localhost:8080'
+  );
+  const sessionToken = await authService.ensureFreshSession();
+  return authService.getUserId(sessionToken);
+}
+
+function toErrorResponse(error: unknown, action: string) {
+  if (error instanceof SessionExpiredError) {
+    return sessionExpiredResponse(error);
+  }
+  console.error(`Share ${action} error:`, error);
+  return NextResponse.json(
+    { error: `Failed to ${action} share links` },
+    { status: 500 }
+  );
+}
+
+// The current user's share links, optionally of one conversation
+export async function GET(request: Request) {
+  try {
+    const conversationId = new URL(request.url).searchParams.get('conversationId') || undefined;
+    const shares = await new ShareStore(await getUserId()).list(conversationId);
+    return NextResponse.json({ shares });
+  } catch (error) {
+    return toErrorResponse(error, 'list');
+  }
+}
+
+// Creates a read-only link to a snapshot of a saved conversation or answer:
+// { conversationId, messageId?, expiresInDays? }
+export async function POST(request: Request) {
+  try {
+    const dreamFactoryUrl = process.env.DREAMFACTORY_URL || 'http://localhost:8080';
+    const authService = new AuthService(dreamFactoryUrl);
+    const sessionToken = await authService.ensureFreshSession();
+    const userId = await authService.getUserId(sessionToken);
+
+    const parsed = shareRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `conversationId is required and expiresInDays must be 1 to ${MAX_SHARE_DAYS}` },
+        { status: 400 }
+      );
+    }
+    const { conversationId, messageId, expiresInDays } = parsed.data;
+
+    const conversation = await new ConversationStore(userId).get(conversationId);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const share = await new ShareStore(userId).create(conversation, { messageId, expiresInDays });
+    if (!share) {
+      return NextResponse.json(
+        { error: messageId ? 'Answer not found in the conversation' : 'The conversation has no messages yet' },
+        { status: 404 }
+      );
+    }
+
+    const { ownerId, entries, ...summary } = share;
+    return NextResponse.json({ share: summary });
+  } catch (error) {
+    return toErrorResponse(error, 'create');
+  }
+}
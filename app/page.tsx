@@ -1,26 +1,113 @@
 "use client"
 
-import { useState } from "react"
+import { useCallback, useEffect, useState } from "react"
 import { LoginForm } from "@/components/LoginForm"
 import { ChatInterface } from "@/components/ChatInterface"
+import { UserBar } from "@/components/UserBar"
+import { ChatHistory } from "@/components/ChatHistory"
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar"
+import { Dialog, DialogContent } from "@/components/ui/dialog"
+import { LoadingDots } from "@/components/ui/loading-dots"
+import { SessionExpiredProvider } from "@/hooks/use-session-expired"
+import type { SessionUser } from "@/lib/types"
 
 export default function Home() {
-  const [isAuthenticated, setIsAuthenticated] = useState(false)
+  const [user, setUser] = useState<SessionUser | null>(null)
+  const [isCheckingSession, setIsCheckingSession] = useState(true)
+  const [isSessionExpired, setIsSessionExpired] = useState(false)
+  // The conversation opened from the history, and the one highlighted there,
+  // which also follows a new chat once its first answer is saved
+  const [openedConversationId, setOpenedConversationId] = useState<string | null>(null)
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null)
+  // Remounts the chat whenever another conversation is opened
+  const [chatKey, setChatKey] = useState(0)
+  const [historyVersion, setHistoryVersion] = useState(0)
 
-  return (
+  // The session cookie is httpOnly, so ask the server whether it is still valid
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setUser(data?.user ?? null))
+      .catch(() => setUser(null))
+      .finally(() => setIsCheckingSession(false))
+  }, [])
+
+  const showLogin = useCallback(() => setIsSessionExpired(true), [])
+
+  const openConversation = (conversationId: string | null) => {
+    setOpenedConversationId(conversationId)
+    setActiveConversationId(conversationId)
+    setChatKey((key) => key + 1)
+  }
+
+  const content = (
     <main className="flex min-h-screen flex-col p-4 md:p-24">
       <div className="max-w-2xl mx-auto w-full">
         <h1 className="text-3xl font-bold mb-8 text-center">
           DreamFactory AI Chat
         </h1>
         
-        {!isAuthenticated ? (
-          <LoginForm onSuccess={() => setIsAuthenticated(true)} />
+        {isCheckingSession ? (
+          <div className="flex justify-center">
+            <LoadingDots />
+          </div>
+        ) : !user ? (
+          <LoginForm onSuccess={setUser} />
         ) : (
-          <ChatInterface />
+          <>
+            <div className="flex items-start gap-2">
+              <SidebarTrigger className="mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <UserBar
+                  user={user}
+                  onLogout={() => {
+                    setUser(null)
+                    openConversation(null)
+                  }}
+                />
+              </div>
+            </div>
+            <ChatInterface
+              key={chatKey}
+              initialConversationId={openedConversationId}
+              onConversationSaved={(conversationId) => {
+                setActiveConversationId(conversationId)
+                setHistoryVersion((version) => version + 1)
+              }}
+            />
+          </>
         )}
+
+        {/* Log in again over the chat so the current conversation is kept */}
+        <Dialog open={isSessionExpired} onOpenChange={setIsSessionExpired}>
+          <DialogContent>
+            <LoginForm
+              description="Your session has expired. Log in again to continue this conversation."
+              onSuccess={(sessionUser) => {
+                setUser(sessionUser)
+                setIsSessionExpired(false)
+              }}
+            />
+          </DialogContent>
+        </Dialog>
       </div>
     </main>
   )
+
+  if (!user) return content
+
+  return (
+    <SessionExpiredProvider value={showLogin}>
+      <SidebarProvider>
+        <ChatHistory
+          activeId={activeConversationId}
+          refreshKey={historyVersion}
+          onSelect={openConversation}
+          onNewChat={() => openConversation(null)}
+        />
+        <SidebarInset>{content}</SidebarInset>
+      </SidebarProvider>
+    </SessionExpiredProvider>
+  )
 }
 
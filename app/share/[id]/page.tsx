@@ -0,0 +1,78 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { LoginForm } from "@/components/LoginForm"
+import { SharedConversation } from "@/components/SharedConversation"
+import { LoadingDots } from "@/components/ui/loading-dots"
+import { SessionExpiredProvider } from "@/hooks/use-session-expired"
+import type { ShareSummary, TranscriptEntry } from "@/lib/types"
+
+type SharedSnapshot = ShareSummary & { entries: TranscriptEntry[] }
+
+interface SharePageProps {
+  params: { id: string }
+}
+
+export default function SharePage({ params }: SharePageProps) {
+  const [share, setShare] = useState<SharedSnapshot | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [needsLogin, setNeedsLogin] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  // Reloads the share after logging in
+  const [attempt, setAttempt] = useState(0)
+
+  const showLogin = useCallback(() => setNeedsLogin(true), [])
+
+  useEffect(() => {
+    setIsLoading(true)
+    fetch(`/api/shares/${params.id}`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (response.status === 401) {
+          setNeedsLogin(true)
+          return
+        }
+        if (!response.ok) throw new Error(data.error || "Failed to load the shared answer")
+
+        setNeedsLogin(false)
+        setShare(data.share)
+      })
+      .catch((loadError) =>
+        setError(loadError instanceof Error ? loadError.message : "Failed to load the shared answer")
+      )
+      .finally(() => setIsLoading(false))
+  }, [params.id, attempt])
+
+  return (
+    <main className="flex min-h-screen flex-col p-4 md:p-24">
+      <div className="max-w-2xl mx-auto w-full">
+        <h1 className="text-3xl font-bold mb-8 text-center">
+          DreamFactory AI Chat
+        </h1>
+
+        {isLoading ? (
+          <div className="flex justify-center">
+            <LoadingDots />
+          </div>
+        ) : needsLogin ? (
+          <LoginForm
+            description="Log in to DreamFactory to view this shared answer."
+            onSuccess={() => setAttempt((value) => value + 1)}
+          />
+        ) : error ? (
+          <div className="text-center space-y-4">
+            <p className="text-gray-600 dark:text-gray-400">{error}</p>
+            <Link href="/" className="text-sm underline">
+              Go to the chat
+            </Link>
+          </div>
+        ) : share && (
+          <SessionExpiredProvider value={showLogin}>
+            <SharedConversation share={share} />
+          </SessionExpiredProvider>
+        )}
+      </div>
+    </main>
+  )
+}
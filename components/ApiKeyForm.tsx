@@ -1,16 +1,21 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/components/ui/use-toast';
 
 interface ApiKeyFormProps {
+  // Apps configured on the server; a key is asked for when there are none
+  apps?: string[];
   onSuccess: () => void;
 }
 
-export function ApiKeyForm({ onSuccess }: ApiKeyFormProps) {
+export function ApiKeyForm({ apps = [], onSuccess }: ApiKeyFormProps) {
   const [apiKey, setApiKey] = useState('');
+  const [app, setApp] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
+  const choosesApp = apps.length > 0;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -22,7 +27,7 @@ export function ApiKeyForm({ onSuccess }: ApiKeyFormProps) {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ apiKey: apiKey.trim() }),
+        body: JSON.stringify(choosesApp ? { app } : { apiKey: apiKey.trim() }),
       });
 
       const data = await response.json();
@@ -33,7 +38,7 @@ export function ApiKeyForm({ onSuccess }: ApiKeyFormProps) {
 
       toast({
         title: 'Success',
-        description: 'DreamFactory API key has been set',
+        description: choosesApp ? `Using the ${app} app` : 'DreamFactory API key has been set',
       });
 
       onSuccess();
@@ -51,23 +56,42 @@ export function ApiKeyForm({ onSuccess }: ApiKeyFormProps) {
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       <div className="space-y-2">
-        <h2 className="text-lg font-semibold">Enter your DreamFactory API Key</h2>
+        <h2 className="text-lg font-semibold">
+          {choosesApp ? 'Choose a DreamFactory app' : 'Enter your DreamFactory API Key'}
+        </h2>
         <p className="text-sm text-gray-500">
-          This key will be used to access your permitted data through DreamFactory.
+          {choosesApp
+            ? 'The app decides which data you can reach once logged in.'
+            : 'This key will be used to access your permitted data through DreamFactory.'}
         </p>
       </div>
       <div className="flex gap-2">
-        <Input
-          type="password"
-          placeholder="Enter your API key"
-          value={apiKey}
-          onChange={(e) => setApiKey(e.target.value)}
-          required
-        />
-        <Button type="submit" disabled={isLoading}>
-          {isLoading ? 'Setting...' : 'Set Key'}
+        {choosesApp ? (
+          <Select value={app} onValueChange={setApp}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select an app" />
+            </SelectTrigger>
+            <SelectContent>
+              {apps.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Input
+            type="password"
+            placeholder="Enter your API key"
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+            required
+          />
+        )}
+        <Button type="submit" disabled={isLoading || (choosesApp && !app)}>
+          {isLoading ? 'Setting...' : choosesApp ? 'Continue' : 'Set Key'}
         </Button>
       </div>
     </form>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { RecordChange } from '@/lib/types';
+
+interface ChangeConfirmationCardProps {
+  change: RecordChange;
+  onDecision: (approve: boolean) => Promise<void>;
+}
+
+const operationLabels: Record<RecordChange['operation'], string> = {
+  create: 'Create',
+  update: 'Update',
+  delete: 'Delete',
+};
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined) return 'null';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// Finds the current state of a record by its primary key
+function findBefore(change: RecordChange, record: Record<string, any>) {
+  return change.before?.find((row) =>
+    change.keyFields.every((field) => String(row[field]) === String(record[field]))
+  );
+}
+
+function RecordDiff({ change, record }: { change: RecordChange; record: Record<string, any> }) {
+  const before = findBefore(change, record);
+
+  if (change.operation === 'create') {
+    return (
+      <>
+        {Object.entries(record).map(([field, value]) => (
+          <div key={field} className="text-green-700 dark:text-green-400">
+            + {field}: {formatValue(value)}
+          </div>
+        ))}
+      </>
+    );
+  }
+
+  if (change.operation === 'delete') {
+    return (
+      <>
+        {Object.entries(before || record).map(([field, value]) => (
+          <div key={field} className="text-red-700 dark:text-red-400">
+            - {field}: {formatValue(value)}
+          </div>
+        ))}
+      </>
+    );
+  }
+
+  return (
+    <>
+      {Object.entries(record).map(([field, value]) =>
+        change.keyFields.includes(field) ? (
+          <div key={field} className="text-gray-500">
+            {'  '}{field}: {formatValue(value)}
+          </div>
+        ) : (
+          <div key={field}>
+            <div className="text-red-700 dark:text-red-400">
+              - {field}: {formatValue(before?.[field])}
+            </div>
+            <div className="text-green-700 dark:text-green-400">
+              + {field}: {formatValue(value)}
+            </div>
+          </div>
+        )
+      )}
+    </>
+  );
+}
+
+export function ChangeConfirmationCard({ change, onDecision }: ChangeConfirmationCardProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const decide = async (approve: boolean) => {
+    setIsSubmitting(true);
+    try {
+      await onDecision(approve);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-950/30 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="font-medium text-sm">
+          {operationLabels[change.operation]} in {change.serviceName}/{change.tableName}
+        </div>
+        <Badge
+          variant={change.status === 'failed' ? 'destructive' : change.status === 'pending' ? 'outline' : 'secondary'}
+        >
+          {change.status}
+        </Badge>
+      </div>
+
+      <p className="text-sm">{change.summary}</p>
+
+      <div className="space-y-2">
+        {change.records.map((record, index) => (
+          <div
+            key={index}
+            className={cn(
+              'overflow-x-auto whitespace-pre rounded bg-white dark:bg-gray-900 p-2 text-xs font-mono',
+              change.records.length > 1 && 'border border-gray-200 dark:border-gray-700'
+            )}
+          >
+            <RecordDiff change={change} record={record} />
+          </div>
+        ))}
+      </div>
+
+      {change.error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{change.error}</p>
+      )}
+
+      {(change.status === 'pending' || change.status === 'failed') && (
+        <div className="flex gap-2">
+          <Button size="sm" onClick={() => decide(true)} disabled={isSubmitting}>
+            {change.status === 'failed' ? 'Retry' : 'Approve'}
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => decide(false)} disabled={isSubmitting}>
+            Reject
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react';
+import { MoreHorizontal, Pencil, Pin, PinOff, Plus, Trash2 } from 'lucide-react';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { useSessionExpired } from '@/hooks/use-session-expired';
+import type { ConversationSummary } from '@/lib/types';
+
+// Waits for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+
+interface ChatHistoryProps {
+  activeId: string | null;
+  // Changes whenever the list should be reloaded, e.g. after an answer was saved
+  refreshKey: number;
+  onSelect: (id: string) => void;
+  onNewChat: () => void;
+}
+
+export function ChatHistory({ activeId, refreshKey, onSelect, onNewChat }: ChatHistoryProps) {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [search, setSearch] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [newTitle, setNewTitle] = useState('');
+  const { toast } = useToast();
+  const checkSessionExpired = useSessionExpired();
+
+  // Sends a request about conversations, reporting failures as toasts
+  const request = async (url: string, init?: RequestInit) => {
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json();
+
+      if (!response.ok) {
+        checkSessionExpired(data);
+        throw new Error(data.error || 'Request failed');
+      }
+      return data;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      const query = search.trim() ? `?q=${encodeURIComponent(search.trim())}` : '';
+      const data = await request(`/api/conversations${query}`);
+      if (data) setConversations(data.conversations);
+    }, search ? SEARCH_DELAY_MS : 0);
+
+    return () => clearTimeout(timer);
+  }, [search, refreshKey]);
+
+  // Applies a rename or pin and re-sorts the list, pinned first
+  const update = async (id: string, changes: { title?: string; pinned?: boolean }) => {
+    const data = await request(`/api/conversations/${id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(changes),
+    });
+    if (!data) return;
+
+    setConversations((previous) =>
+      previous
+        .map((conversation) => (conversation.id === id ? data.conversation : conversation))
+        .sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt.localeCompare(a.updatedAt))
+    );
+  };
+
+  const remove = async (id: string) => {
+    if (!(await request(`/api/conversations/${id}`, { method: 'DELETE' }))) return;
+
+    setConversations((previous) => previous.filter((conversation) => conversation.id !== id));
+    if (id === activeId) onNewChat();
+  };
+
+  const finishRename = (id: string) => {
+    setRenamingId(null);
+    if (newTitle.trim()) update(id, { title: newTitle.trim() });
+  };
+
+  const renderGroup = (label: string, items: ConversationSummary[]) =>
+    items.length > 0 && (
+      <SidebarGroup>
+        <SidebarGroupLabel>{label}</SidebarGroupLabel>
+        <SidebarGroupContent>
+          <SidebarMenu>
+            {items.map((conversation) => (
+              <SidebarMenuItem key={conversation.id}>
+                {renamingId === conversation.id ? (
+                  <SidebarInput
+                    autoFocus
+                    value={newTitle}
+                    onChange={(event) => setNewTitle(event.target.value)}
+                    onBlur={() => finishRename(conversation.id)}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter') finishRename(conversation.id);
+                      if (event.key === 'Escape') setRenamingId(null);
+                    }}
+                  />
+                ) : (
+                  <SidebarMenuButton
+                    isActive={conversation.id === activeId}
+                    onClick={() => onSelect(conversation.id)}
+                    title={conversation.title}
+                  >
+                    <span className="truncate">{conversation.title || 'Untitled chat'}</span>
+                  </SidebarMenuButton>
+                )}
+
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <SidebarMenuAction showOnHover>
+                      <MoreHorizontal />
+                      <span className="sr-only">More</span>
+                    </SidebarMenuAction>
+                  </DropdownMenuTrigger>
+                  {/* Keep focus on the rename input instead of returning it to the menu button */}
+                  <DropdownMenuContent side="right" align="start" onCloseAutoFocus={(event) => event.preventDefault()}>
+                    <DropdownMenuItem
+                      onSelect={() => {
+                        setNewTitle(conversation.title);
+                        setRenamingId(conversation.id);
+                      }}
+                    >
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Rename
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => update(conversation.id, { pinned: !conversation.pinned })}>
+                      {conversation.pinned ? <PinOff className="mr-2 h-4 w-4" /> : <Pin className="mr-2 h-4 w-4" />}
+                      {conversation.pinned ? 'Unpin' : 'Pin'}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="text-red-600" onSelect={() => remove(conversation.id)}>
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </SidebarMenuItem>
+            ))}
+          </SidebarMenu>
+        </SidebarGroupContent>
+      </SidebarGroup>
+    );
+
+  const pinned = conversations.filter((conversation) => conversation.pinned);
+  const recent = conversations.filter((conversation) => !conversation.pinned);
+
+  return (
+    <Sidebar>
+      <SidebarHeader className="gap-2">
+        <Button variant="outline" size="sm" className="justify-start gap-2" onClick={onNewChat}>
+          <Plus className="h-4 w-4" />
+          New chat
+        </Button>
+        <SidebarInput
+          placeholder="Search chats..."
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+        />
+      </SidebarHeader>
+      <SidebarContent>
+        {renderGroup('Pinned', pinned)}
+        {renderGroup('Recent', recent)}
+        {conversations.length === 0 && (
+          <div className="px-4 py-2 text-xs text-gray-500">
+            {search.trim() ? 'No chats match the search.' : 'No saved chats yet.'}
+          </div>
+        )}
+      </SidebarContent>
+    </Sidebar>
+  );
+}
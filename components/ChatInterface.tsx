@@ -1,18 +1,43 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { Share2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/components/ui/use-toast';
+import { useSessionExpired } from '@/hooks/use-session-expired';
 import { LoadingDots } from '@/components/ui/loading-dots';
 import ReactMarkdown from 'react-markdown';
 import type { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { TraceTimeline } from '@/components/TraceTimeline';
+import { ChangeConfirmationCard } from '@/components/ChangeConfirmationCard';
+import { DataTable } from '@/components/DataTable';
+import { ResultChart } from '@/components/ResultChart';
+import { ShareDialog } from '@/components/ShareDialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ChartData, ChatStreamEvent, RecordChange, ResultTable, TraceStep, TranscriptEntry } from '@/lib/types';
+
+interface ToolActivity {
+  id: string;
+  name: string;
+  status: 'running' | 'done' | 'failed';
+}
 
 interface Message {
+  // Set once the message has been saved to the conversation
+  id?: string;
   role: 'user' | 'assistant';
   content: string;
   thinking?: string;
+  activity?: ToolActivity[];
+  endpoints?: string[];
+  trace?: TraceStep[];
+  changes?: RecordChange[];
+  table?: ResultTable;
+  charts?: ChartData[];
+  isStreaming?: boolean;
 }
 
-const markdownComponents: Components = {
+export const markdownComponents: Components = {
   p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
   ul: ({ children }) => <ul className="list-disc ml-4 mb-2">{children}</ul>,
   ol: ({ children }) => <ol className="list-decimal ml-4 mb-2">{children}</ol>,
@@ -20,6 +45,12 @@ const markdownComponents: Components = {
   code: ({ children }) => (
     <code className="bg-gray-200 dark:bg-gray-700 rounded px-1 py-0.5">{children}</code>
   ),
+  table: ({ children }) => <Table className="my-2 text-xs">{children}</Table>,
+  thead: ({ children }) => <TableHeader>{children}</TableHeader>,
+  tbody: ({ children }) => <TableBody>{children}</TableBody>,
+  tr: ({ children }) => <TableRow>{children}</TableRow>,
+  th: ({ children }) => <TableHead className="h-8 px-2">{children}</TableHead>,
+  td: ({ children }) => <TableCell className="p-2">{children}</TableCell>,
 };
 
 const thinkingComponents: Components = {
@@ -29,11 +60,131 @@ const thinkingComponents: Components = {
   li: ({ children }) => <li className="mb-1">{children}</li>,
 };
 
-export function ChatInterface() {
+// Hide reasoning blocks (complete or still streaming) from partial answers
+function stripThinking(content: string): string {
+  return content
+    .replace(/<thinking>[\s\S]*?<\/thinking>/g, '')
+    .replace(/<thinking>[\s\S]*$/, '')
+    .trim();
+}
+
+async function readEventStream(response: Response, onEvent: (event: ChatStreamEvent) => void) {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+
+    for (const event of events) {
+      const data = event.replace(/^data: /, '');
+      if (data) onEvent(JSON.parse(data));
+    }
+  }
+}
+
+function applyStreamEvent(message: Message, event: ChatStreamEvent): Message {
+  const activity = message.activity || [];
+
+  switch (event.type) {
+    // Text streamed before a tool call belongs to an intermediate turn, not the answer
+    case 'tool_start':
+      return {
+        ...message,
+        content: '',
+        activity: [...activity, { id: event.id, name: event.name, status: 'running' }],
+      };
+    case 'tool_end':
+      return {
+        ...message,
+        activity: activity.map((tool) =>
+          tool.id === event.id ? { ...tool, status: event.error ? 'failed' : 'done' } : tool
+        ),
+      };
+    case 'endpoint':
+      // Tool calls run concurrently, so endpoints are listed per message
+      return { ...message, endpoints: [...(message.endpoints || []), event.url] };
+    case 'token':
+      return { ...message, content: message.content + event.content };
+    case 'done':
+      return {
+        ...message,
+        id: event.messageId,
+        content: event.message,
+        thinking: event.thinking,
+        endpoints: event.endpoints,
+        trace: event.trace,
+        changes: event.changes,
+        table: event.table,
+        charts: event.charts,
+        isStreaming: false,
+      };
+    case 'error':
+      return {
+        ...message,
+        content: `⚠️ ${event.error}`,
+        thinking: event.errorType === 'permission_denied' ?
+          'I encountered a permissions error while trying to access the database. This usually means your account doesn\'t have the required access level for this information.' : undefined,
+        isStreaming: false,
+      };
+  }
+}
+
+interface ChatInterfaceProps {
+  // A saved conversation to reopen; a new one is started when omitted
+  initialConversationId?: string | null;
+  // Called after each answer has been saved to the conversation
+  onConversationSaved?: (conversationId: string) => void;
+}
+
+export function ChatInterface({ initialConversationId, onConversationSaved }: ChatInterfaceProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [conversationId, setConversationId] = useState<string | null>(initialConversationId ?? null);
+  // The answer the share dialog is open for
+  const [sharedMessageId, setSharedMessageId] = useState<string | null>(null);
   const { toast } = useToast();
+  const checkSessionExpired = useSessionExpired();
+
+  // Shows the saved messages of a reopened conversation
+  useEffect(() => {
+    if (!initialConversationId) return;
+
+    setIsLoading(true);
+    fetch(`/api/conversations/${initialConversationId}`)
+      .then(async (response) => {
+        const data = await response.json();
+        checkSessionExpired(data);
+        if (!response.ok) throw new Error(data.error || 'Failed to load the conversation');
+
+        const transcript: TranscriptEntry[] = data.conversation.transcript;
+        setMessages(transcript);
+      })
+      .catch((error) =>
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to load the conversation',
+          variant: 'destructive',
+        })
+      )
+      .finally(() => setIsLoading(false));
+  }, [initialConversationId]);
+
+  // Drops the unanswered question (and any partial answer) and puts it back
+  // in the input, so it can be resent after logging in again
+  const restoreUnsentMessage = (userMessage: string) => {
+    setMessages((prev) => {
+      const lastUserIndex = prev.map((message) => message.role).lastIndexOf('user');
+      return lastUserIndex === -1 ? prev : prev.slice(0, lastUserIndex);
+    });
+    setInput(userMessage);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -52,12 +203,17 @@ export function ChatInterface() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ message: userMessage }),
+        body: JSON.stringify({ message: userMessage, conversationId, stream: true }),
       });
 
-      const data = await response.json();
-
       if (!response.ok) {
+        const data = await response.json();
+
+        if (checkSessionExpired(data)) {
+          restoreUnsentMessage(userMessage);
+          return;
+        }
+
         let errorMessage = data.error || 'An error occurred while processing your request.';
         
         // Add error message as an assistant message with appropriate styling
@@ -73,19 +229,54 @@ export function ChatInterface() {
         return;
       }
 
-      // Add assistant's response to chat
+      // Add an empty assistant message and fill it in as events arrive
       setMessages((prev) => [
         ...prev,
-        { 
-          role: 'assistant', 
-          content: data.message,
-          thinking: data.thinking 
-        },
+        { role: 'assistant', content: '', activity: [], endpoints: [], isStreaming: true },
       ]);
+
+      let sessionExpired = false;
+
+      await readEventStream(response, (event) => {
+        if (event.type === 'done') {
+          setConversationId(event.conversationId);
+          onConversationSaved?.(event.conversationId);
+        }
+
+        if (event.type === 'error' && checkSessionExpired({ type: event.errorType })) {
+          sessionExpired = true;
+          return;
+        }
+
+        setMessages((prev) => [
+          ...prev.slice(0, -1),
+          applyStreamEvent(prev[prev.length - 1], event),
+        ]);
+      });
+
+      if (sessionExpired) {
+        restoreUnsentMessage(userMessage);
+        return;
+      }
+
+      // The stream ended without a done or error event, e.g. when the
+      // connection dropped mid-answer
+      setMessages((prev) => {
+        const last = prev[prev.length - 1];
+        if (!last?.isStreaming) return prev;
+        return [
+          ...prev.slice(0, -1),
+          {
+            ...last,
+            content: `${stripThinking(last.content)}\n\n⚠️ The answer was interrupted. Please try again.`.trim(),
+            isStreaming: false,
+          },
+        ];
+      });
     } catch (error) {
-      // Network or other client-side errors
+      // Network or other client-side errors, replacing any interrupted stream
       setMessages((prev) => [
-        ...prev,
+        ...(prev[prev.length - 1]?.isStreaming ? prev.slice(0, -1) : prev),
         { 
           role: 'assistant', 
           content: '⚠️ Unable to connect to the server. Please check your internet connection and try again.',
@@ -96,31 +287,174 @@ export function ChatInterface() {
     }
   };
 
+  // Sends the user's decision on a proposed change and records the outcome
+  // on the message that proposed it
+  const handleChangeDecision = async (messageIndex: number, changeId: string, approve: boolean) => {
+    try {
+      const response = await fetch('/api/chat/changes', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ conversationId, changeId, approve }),
+      });
+
+      const data = await response.json();
+
+      if (checkSessionExpired(data)) {
+        throw new Error('Your session has expired. Log in again, then approve or reject the change.');
+      }
+
+      if (!data.change) {
+        throw new Error(data.error || 'Failed to process the change');
+      }
+
+      setMessages((prev) =>
+        prev.map((message, index) =>
+          index === messageIndex
+            ? {
+                ...message,
+                changes: message.changes?.map((change) => (change.id === changeId ? data.change : change)),
+                trace: data.step ? [...(message.trace || []), data.step] : message.trace,
+              }
+            : message
+        )
+      );
+
+      if (data.change.status === 'failed') {
+        toast({
+          title: 'Change failed',
+          description: data.change.error,
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to process the change',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const lastMessage = messages[messages.length - 1];
+  const isAnswerStreaming = lastMessage?.isStreaming && stripThinking(lastMessage.content) !== '';
+
   return (
     <div className="flex flex-col h-full max-w-4xl mx-auto">
       <div className="flex-1 space-y-4 overflow-y-auto p-4">
         {messages.map((message, index) => (
           <div key={index} className="space-y-4">
-            <div
-              className={`flex ${
-                message.role === 'user' ? 'justify-end' : 'justify-start'
-              }`}
-            >
+            {message.isStreaming && message.activity && message.activity.length > 0 && (
+              <div className="flex justify-start">
+                <div className="max-w-[80%] rounded-lg p-3 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 text-xs space-y-2">
+                  {message.activity.map((tool) => (
+                    <div key={tool.id} className="flex items-center gap-2 font-medium text-gray-700 dark:text-gray-300">
+                      <span>
+                        {tool.status === 'running' ? '…' : tool.status === 'done' ? '✓' : '✗'}
+                      </span>
+                      <span>{tool.name}</span>
+                    </div>
+                  ))}
+                  {message.endpoints?.map((url, urlIndex) => (
+                    <div key={urlIndex} className="font-mono text-gray-500 break-all">
+                      {url}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {!message.isStreaming && message.endpoints && message.endpoints.length > 0 && (
+              <div className="flex justify-start">
+                <div className="max-w-[80%] rounded-lg p-3 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 text-xs space-y-1">
+                  <div className="font-medium text-gray-700 dark:text-gray-300">DreamFactory endpoints</div>
+                  {message.endpoints.map((url, urlIndex) => (
+                    <div key={urlIndex} className="font-mono text-gray-500 break-all">
+                      {url}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {(!message.isStreaming || stripThinking(message.content)) && (
               <div
-                className={`max-w-[80%] rounded-lg p-4 ${
-                  message.role === 'user'
-                    ? 'bg-blue-500 text-white'
-                    : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+                className={`flex ${
+                  message.role === 'user' ? 'justify-end' : 'justify-start'
                 }`}
               >
-                <ReactMarkdown
-                  className="prose dark:prose-invert max-w-none"
-                  components={markdownComponents}
+                <div
+                  className={`max-w-[80%] rounded-lg p-4 ${
+                    message.role === 'user'
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+                  }`}
+                >
+                  <ReactMarkdown
+                    className="prose dark:prose-invert max-w-none"
+                    components={markdownComponents}
+                    remarkPlugins={[remarkGfm]}
+                  >
+                    {message.isStreaming ? stripThinking(message.content) : message.content}
+                  </ReactMarkdown>
+                </div>
+              </div>
+            )}
+
+            {message.role === 'assistant' && message.id && conversationId && (
+              <div className="flex justify-start -mt-3">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1 text-xs text-gray-500"
+                  onClick={() => setSharedMessageId(message.id!)}
                 >
-                  {message.content}
-                </ReactMarkdown>
+                  <Share2 className="h-3 w-3" />
+                  Share
+                </Button>
               </div>
-            </div>
+            )}
+
+            {message.charts?.map((chart, chartIndex) => (
+              <div key={chartIndex} className="flex justify-start">
+                <div className="max-w-[80%] w-full">
+                  <ResultChart chart={chart} />
+                </div>
+              </div>
+            ))}
+
+            {message.table && (
+              <div className="flex justify-start">
+                <div className="max-w-[80%] w-full">
+                  <DataTable
+                    table={message.table}
+                    exportSource={
+                      message.id && conversationId ? { conversationId, messageId: message.id } : undefined
+                    }
+                  />
+                </div>
+              </div>
+            )}
+
+            {message.changes?.map((change) => (
+              <div key={change.id} className="flex justify-start">
+                <div className="max-w-[80%] w-full">
+                  <ChangeConfirmationCard
+                    change={change}
+                    onDecision={(approve) => handleChangeDecision(index, change.id, approve)}
+                  />
+                </div>
+              </div>
+            ))}
+
+            {message.trace && message.trace.length > 0 && (
+              <div className="flex justify-start">
+                <div className="max-w-[80%] w-full">
+                  <TraceTimeline steps={message.trace} />
+                </div>
+              </div>
+            )}
             
             {message.thinking && (
               <div className="flex justify-start">
@@ -140,7 +474,7 @@ export function ChatInterface() {
           </div>
         ))}
         
-        {isLoading && (
+        {isLoading && !isAnswerStreaming && (
           <div className="space-y-4">
             <div className="flex justify-start">
               <div className="max-w-[80%] rounded-lg p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-700">
@@ -154,6 +488,15 @@ export function ChatInterface() {
         )}
       </div>
 
+      {conversationId && (
+        <ShareDialog
+          open={sharedMessageId !== null}
+          onOpenChange={(open) => !open && setSharedMessageId(null)}
+          conversationId={conversationId}
+          messageId={sharedMessageId ?? undefined}
+        />
+      )}
+
       <form onSubmit={handleSubmit} className="p-4 border-t dark:border-gray-700">
         <div className="flex gap-2">
           <Textarea
@@ -0,0 +1,275 @@
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Braces, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/use-toast';
+import { useSessionExpired } from '@/hooks/use-session-expired';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { cn } from '@/lib/utils';
+import {
+  filterAndSortRows,
+  formatCell,
+  nextSort,
+  pageOf,
+  visiblePages,
+  type SortState,
+} from '@/lib/table-view';
+import type { ExportFormat, ExportSource, ResultTable } from '@/lib/types';
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+  { format: 'json', label: 'JSON' },
+];
+
+// Saves a downloaded file under the name the server suggested
+function saveFile(blob: Blob, disposition: string | null, fallbackName: string) {
+  const fileName = disposition?.match(/filename="([^"]+)"/)?.[1] || fallbackName;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+interface DataTableProps {
+  table: ResultTable;
+  // The answer the table belongs to; export is offered only when it is known
+  exportSource?: ExportSource;
+}
+
+// The rows behind an answer, sortable by column and filterable by text
+export function DataTable({ table, exportSource }: DataTableProps) {
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [query, setQuery] = useState('');
+  const [page, setPage] = useState(1);
+  const [showJson, setShowJson] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const { toast } = useToast();
+  const checkSessionExpired = useSessionExpired();
+
+  const rows = useMemo(
+    () => filterAndSortRows(table.rows, table.columns, query, sort),
+    [table, query, sort]
+  );
+  const { rows: pageRows, currentPage, pageCount } = pageOf(rows, page);
+
+  const toggleSort = (column: string) => {
+    setSort((previous) => nextSort(previous, column));
+    setPage(1);
+  };
+
+  const goToPage = (target: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    setPage(Math.min(Math.max(target, 1), pageCount));
+  };
+
+  // Exports every row of the query, not only the rows shown
+  const handleExport = async (format: ExportFormat) => {
+    if (!exportSource) return;
+    setExportingFormat(format);
+
+    try {
+      const response = await fetch('/api/export', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ format, ...exportSource }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        checkSessionExpired(data);
+        throw new Error(data.error || 'Failed to export the data');
+      }
+
+      saveFile(await response.blob(), response.headers.get('Content-Disposition'), `${table.tableName}.${format}`);
+
+      if (response.headers.get('X-Export-Truncated')) {
+        toast({
+          title: 'Export truncated',
+          description: `Only the first ${response.headers.get('X-Export-Rows')} rows were exported.`,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to export the data',
+        variant: 'destructive',
+      });
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const firstRow = table.offset + 1;
+  const lastRow = table.offset + table.rows.length;
+  const caption =
+    `${table.serviceName}/${table.tableName}: rows ${firstRow}-${lastRow}` +
+    (table.total !== undefined ? ` of ${table.total}` : '') +
+    (query.trim() ? `, ${rows.length} matching the filter` : '');
+
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-3">
+      <div className="flex items-center gap-2">
+        <Input
+          placeholder="Filter rows..."
+          value={query}
+          onChange={(event) => {
+            setQuery(event.target.value);
+            setPage(1);
+          }}
+          className="h-8 max-w-xs"
+          disabled={showJson}
+        />
+        {exportSource && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="ml-auto gap-1 text-xs" disabled={exportingFormat !== null}>
+                <Download className="h-3 w-3" />
+                {exportingFormat ? 'Exporting...' : 'Export'}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {EXPORT_FORMATS.map(({ format, label }) => (
+                <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+                  {label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`gap-1 text-xs ${exportSource ? '' : 'ml-auto'}`}
+          onClick={() => setShowJson((previous) => !previous)}
+        >
+          <Braces className="h-3 w-3" />
+          {showJson ? 'Show table' : 'Show raw JSON'}
+        </Button>
+      </div>
+
+      {showJson ? (
+        <pre className="max-h-96 overflow-auto rounded bg-gray-100 dark:bg-gray-800 p-2 text-xs text-gray-700 dark:text-gray-300">
+          {JSON.stringify(table.rows, null, 2)}
+        </pre>
+      ) : (
+        <>
+          <Table>
+            <TableCaption className="text-xs">{caption}</TableCaption>
+            <TableHeader>
+              <TableRow>
+                {table.columns.map((column) => (
+                  <TableHead key={column} className="h-9 px-2">
+                    <button
+                      type="button"
+                      className="flex items-center gap-1 hover:text-gray-900 dark:hover:text-gray-100"
+                      onClick={() => toggleSort(column)}
+                    >
+                      {column}
+                      {sort?.column === column ? (
+                        sort.direction === 'asc' ? (
+                          <ArrowUp className="h-3 w-3" />
+                        ) : (
+                          <ArrowDown className="h-3 w-3" />
+                        )
+                      ) : (
+                        <ArrowUpDown className="h-3 w-3 opacity-40" />
+                      )}
+                    </button>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pageRows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={table.columns.length} className="p-2 text-center text-gray-500">
+                    No rows match the filter.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                pageRows.map((row, rowIndex) => (
+                  <TableRow key={rowIndex}>
+                    {table.columns.map((column) => (
+                      <TableCell
+                        key={column}
+                        className={cn('p-2 text-xs', typeof row[column] === 'number' && 'text-right tabular-nums')}
+                      >
+                        {formatCell(row[column])}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+
+          {pageCount > 1 && (
+            <Pagination>
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    href="#"
+                    onClick={goToPage(currentPage - 1)}
+                    className={cn(currentPage === 1 && 'pointer-events-none opacity-50')}
+                  />
+                </PaginationItem>
+                {visiblePages(currentPage, pageCount).map((pageNumber, index) =>
+                  pageNumber === null ? (
+                    <PaginationItem key={`gap-${index}`}>
+                      <PaginationEllipsis />
+                    </PaginationItem>
+                  ) : (
+                    <PaginationItem key={pageNumber}>
+                      <PaginationLink
+                        href="#"
+                        isActive={pageNumber === currentPage}
+                        onClick={goToPage(pageNumber)}
+                      >
+                        {pageNumber}
+                      </PaginationLink>
+                    </PaginationItem>
+                  )
+                )}
+                <PaginationItem>
+                  <PaginationNext
+                    href="#"
+                    onClick={goToPage(currentPage + 1)}
+                    className={cn(currentPage === pageCount && 'pointer-events-none opacity-50')}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,88 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/components/ui/use-toast';
+import { ApiKeyForm } from '@/components/ApiKeyForm';
+import type { LoginOptions, SessionUser } from '@/lib/types';
+
+// What GET /api/init reports about the DreamFactory app for this browser
+interface AppSelection {
+  apps: string[];
+  hasApiKey: boolean;
+  selectedApp: string | null;
+}
 
 interface LoginFormProps {
-  onSuccess: () => void;
+  onSuccess: (user: SessionUser) => void;
+  description?: string;
 }
 
-export function LoginForm({ onSuccess }: LoginFormProps) {
-  const [email, setEmail] = useState('');
+// Used until DreamFactory's login services have loaded, or if they can't be
+const DEFAULT_LOGIN_OPTIONS: LoginOptions = {
+  loginAttribute: 'email',
+  services: [{ name: '', label: 'DreamFactory', type: 'password' }],
+};
+
+export function LoginForm({
+  onSuccess,
+  description = 'Enter your credentials to access the chat interface.',
+}: LoginFormProps) {
+  const [identifier, setIdentifier] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [loginOptions, setLoginOptions] = useState<LoginOptions>(DEFAULT_LOGIN_OPTIONS);
+  const [serviceName, setServiceName] = useState('');
+  const [appSelection, setAppSelection] = useState<AppSelection | null>(null);
+  const [isChoosingApp, setIsChoosingApp] = useState(false);
   const { toast } = useToast();
 
+  // Login needs an app key: ask for an app or key first when the server
+  // has no single default
+  const loadAppSelection = () =>
+    fetch('/api/init')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((selection: AppSelection | null) => {
+        if (selection) setAppSelection(selection);
+      })
+      .catch(() => {});
+
+  useEffect(() => {
+    loadAppSelection();
+  }, []);
+
+  const canLogin = !!appSelection?.hasApiKey && !isChoosingApp;
+
+  useEffect(() => {
+    if (!canLogin) return;
+
+    fetch('/api/auth/services')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((options: LoginOptions | null) => {
+        if (options?.services?.length) setLoginOptions(options);
+      })
+      .catch(() => {});
+  }, [canLogin, appSelection?.selectedApp]);
+
+  useEffect(() => {
+    // Set by the OAuth routes when a login fails
+    const params = new URLSearchParams(window.location.search);
+    const loginError = params.get('login_error');
+    if (loginError) {
+      toast({
+        title: 'Error',
+        description: loginError,
+        variant: 'destructive',
+      });
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+  }, [toast]);
+
+  const credentialServices = loginOptions.services.filter((service) => service.type !== 'oauth');
+  const oauthServices = loginOptions.services.filter((service) => service.type === 'oauth');
+  const selectedService = credentialServices.find((service) => service.name === serviceName);
+  const usesUsername = selectedService?.type === 'ldap' || loginOptions.loginAttribute === 'username';
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -23,7 +93,11 @@ export function LoginForm({ onSuccess }: LoginFormProps) {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ email, password }),
+        body: JSON.stringify({
+          ...(usesUsername ? { username: identifier } : { email: identifier }),
+          password,
+          service: serviceName || undefined,
+        }),
       });
 
       const data = await response.json();
@@ -37,7 +111,7 @@ export function LoginForm({ onSuccess }: LoginFormProps) {
         description: 'Successfully logged in',
       });
 
-      onSuccess();
+      onSuccess(data.user);
     } catch (error) {
       toast({
         title: 'Error',
@@ -49,21 +123,60 @@ export function LoginForm({ onSuccess }: LoginFormProps) {
     }
   };
 
+  if (appSelection && !canLogin) {
+    return (
+      <ApiKeyForm
+        apps={appSelection.apps}
+        onSuccess={() => {
+          setIsChoosingApp(false);
+          loadAppSelection();
+        }}
+      />
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       <div className="space-y-2">
         <h2 className="text-lg font-semibold">Login to DreamFactory</h2>
         <p className="text-sm text-gray-500">
-          Enter your credentials to access the chat interface.
+          {description}
         </p>
+        {appSelection && appSelection.apps.length > 1 && (
+          <p className="text-sm text-gray-500">
+            App: {appSelection.selectedApp || 'default'}{' '}
+            <button type="button" className="underline" onClick={() => setIsChoosingApp(true)}>
+              Change
+            </button>
+          </p>
+        )}
       </div>
       <div className="space-y-4">
+        {credentialServices.length > 1 && (
+          <div>
+            <Select
+              value={serviceName || 'default'}
+              onValueChange={(value) => setServiceName(value === 'default' ? '' : value)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Login service" />
+              </SelectTrigger>
+              <SelectContent>
+                {credentialServices.map((service) => (
+                  <SelectItem key={service.name || 'default'} value={service.name || 'default'}>
+                    {service.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
         <div>
           <Input
-            type="email"
-            placeholder="Email address"
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
+            type={usesUsername ? 'text' : 'email'}
+            placeholder={usesUsername ? 'Username' : 'Email address'}
+            value={identifier}
+            onChange={(e) => setIdentifier(e.target.value)}
             required
           />
         </div>
@@ -79,6 +192,25 @@ export function LoginForm({ onSuccess }: LoginFormProps) {
         <Button type="submit" className="w-full" disabled={isLoading}>
           {isLoading ? 'Logging in...' : 'Login'}
         </Button>
+        {oauthServices.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-center text-sm text-gray-500">or</p>
+            {oauthServices.map((service) => (
+              <Button
+                key={service.name}
+                type="button"
+                variant="outline"
+                className="w-full"
+                disabled={isLoading}
+                onClick={() => {
+                  window.location.href = `/api/auth/oauth?service=${encodeURIComponent(service.name)}`;
+                }}
+              >
+                Continue with {service.label}
+              </Button>
+            ))}
+          </div>
+        )}
       </div>
     </form>
   );
@@ -0,0 +1,132 @@
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import type { ChartData } from '@/lib/types';
+
+// One color per series or pie slice, repeating after the last
+const PALETTE = ['#2563eb', '#16a34a', '#f59e0b', '#dc2626', '#9333ea', '#0891b2', '#db2777', '#65a30d'];
+
+function colorAt(index: number): string {
+  return PALETTE[index % PALETTE.length];
+}
+
+function sliceKey(index: number): string {
+  return `slice-${index}`;
+}
+
+interface ResultChartProps {
+  chart: ChartData;
+}
+
+// Draws a chart the model requested with renderChart
+export function ResultChart({ chart }: ResultChartProps) {
+  // Pie slices are keyed by position, since x values need not be valid or
+  // distinct keys, and labelled by their x value; other charts by series
+  const pieRows = chart.rows.map((row, index) => ({ ...row, slice: sliceKey(index) }));
+  const config: ChartConfig =
+    chart.type === 'pie'
+      ? Object.fromEntries(chart.rows.map((row, index) => [sliceKey(index), { label: String(row.x), color: colorAt(index) }]))
+      : Object.fromEntries(chart.series.map((series, index) => [series.key, { label: series.label, color: colorAt(index) }]));
+
+  const axes = (
+    <>
+      <CartesianGrid vertical={false} />
+      <XAxis dataKey="x" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+      <YAxis tickLine={false} axisLine={false} width={56} />
+      <ChartTooltip content={<ChartTooltipContent />} />
+      {chart.series.length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+    </>
+  );
+
+  const renderChart = () => {
+    switch (chart.type) {
+      case 'bar':
+        return (
+          <BarChart data={chart.rows}>
+            {axes}
+            {chart.series.map((series) => (
+              <Bar key={series.key} dataKey={series.key} fill={`var(--color-${series.key})`} radius={4} />
+            ))}
+          </BarChart>
+        );
+      case 'line':
+        return (
+          <LineChart data={chart.rows}>
+            {axes}
+            {chart.series.map((series) => (
+              <Line
+                key={series.key}
+                dataKey={series.key}
+                type="monotone"
+                stroke={`var(--color-${series.key})`}
+                strokeWidth={2}
+                dot={chart.rows.length <= 40}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        );
+      case 'area':
+        return (
+          <AreaChart data={chart.rows}>
+            {axes}
+            {chart.series.map((series) => (
+              <Area
+                key={series.key}
+                dataKey={series.key}
+                type="monotone"
+                stroke={`var(--color-${series.key})`}
+                fill={`var(--color-${series.key})`}
+                fillOpacity={0.3}
+                connectNulls
+              />
+            ))}
+          </AreaChart>
+        );
+      case 'pie':
+        return (
+          <PieChart>
+            <ChartTooltip content={<ChartTooltipContent nameKey="slice" hideLabel />} />
+            <Pie data={pieRows} dataKey={chart.series[0].key} nameKey="x" innerRadius={40}>
+              {pieRows.map((row, index) => (
+                <Cell key={row.slice} fill={colorAt(index)} />
+              ))}
+            </Pie>
+            <ChartLegend content={<ChartLegendContent nameKey="slice" />} className="flex-wrap" />
+          </PieChart>
+        );
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-2">
+      <div className="text-sm font-medium text-gray-800 dark:text-gray-200">{chart.title}</div>
+      <ChartContainer config={config} className="w-full max-h-80">
+        {renderChart()}
+      </ChartContainer>
+      <div className="text-xs text-gray-500">
+        {chart.type === 'pie' ? chart.series[0].label : `${chart.series.map((series) => series.label).join(', ')} by ${chart.xLabel}`}
+        {chart.note && ` · ${chart.note}`}
+      </div>
+    </div>
+  );
+}
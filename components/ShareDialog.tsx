@@ -0,0 +1,210 @@
+import { useEffect, useState } from 'react';
+import { Copy, Link2Off } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { useSessionExpired } from '@/hooks/use-session-expired';
+import type { ShareSummary } from '@/lib/types';
+
+const EXPIRY_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+];
+
+function shareUrl(id: string): string {
+  return `${window.location.origin}/share/${id}`;
+}
+
+function describeStatus(share: ShareSummary): string {
+  if (share.revokedAt) return 'Revoked';
+  const expiresAt = new Date(share.expiresAt);
+  return expiresAt <= new Date() ? 'Expired' : `Expires ${expiresAt.toLocaleDateString()}`;
+}
+
+interface ShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversationId: string;
+  // The answer the dialog was opened from; only the whole conversation can be shared without it
+  messageId?: string;
+}
+
+// Creates read-only links to an answer or the whole conversation, and lists
+// the conversation's links so they can be revoked
+export function ShareDialog({ open, onOpenChange, conversationId, messageId }: ShareDialogProps) {
+  const [scope, setScope] = useState<'answer' | 'conversation'>(messageId ? 'answer' : 'conversation');
+  const [expiresInDays, setExpiresInDays] = useState('7');
+  const [shares, setShares] = useState<ShareSummary[]>([]);
+  const [createdId, setCreatedId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const { toast } = useToast();
+  const checkSessionExpired = useSessionExpired();
+
+  // Sends a request about share links, reporting failures as toasts
+  const request = async (url: string, init?: RequestInit) => {
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json();
+
+      if (!response.ok) {
+        checkSessionExpired(data);
+        throw new Error(data.error || 'Request failed');
+      }
+      return data;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Request failed',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+
+    setScope(messageId ? 'answer' : 'conversation');
+    setCreatedId(null);
+    request(`/api/shares?conversationId=${encodeURIComponent(conversationId)}`).then((data) => {
+      if (data) setShares(data.shares);
+    });
+  }, [open, conversationId, messageId]);
+
+  const create = async () => {
+    setIsCreating(true);
+    const data = await request('/api/shares', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        conversationId,
+        messageId: scope === 'answer' ? messageId : undefined,
+        expiresInDays: Number(expiresInDays),
+      }),
+    });
+    setIsCreating(false);
+    if (!data) return;
+
+    setShares((previous) => [data.share, ...previous]);
+    setCreatedId(data.share.id);
+  };
+
+  const copy = async (id: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(id));
+      toast({ title: 'Link copied' });
+    } catch {
+      toast({ title: 'Error', description: 'Could not copy the link', variant: 'destructive' });
+    }
+  };
+
+  const revoke = async (id: string) => {
+    const data = await request(`/api/shares/${id}`, { method: 'DELETE' });
+    if (!data) return;
+
+    setShares((previous) => previous.map((share) => (share.id === id ? data.share : share)));
+    if (id === createdId) setCreatedId(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share</DialogTitle>
+          <DialogDescription>
+            Anyone logged in to DreamFactory whose role can read the same data can open the link. It shows a
+            snapshot of the question, answer, trace and data as they are now.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={scope} onValueChange={(value) => setScope(value as 'answer' | 'conversation')}>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="answer" id="share-answer" disabled={!messageId} />
+              <Label htmlFor="share-answer">This answer and its question</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="conversation" id="share-conversation" />
+              <Label htmlFor="share-conversation">The whole conversation</Label>
+            </div>
+          </RadioGroup>
+
+          <div className="flex items-center gap-2">
+            <Label className="shrink-0">Expires after</Label>
+            <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.days} value={String(option.days)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button className="ml-auto" onClick={create} disabled={isCreating}>
+              Create link
+            </Button>
+          </div>
+
+          {createdId && (
+            <div className="flex gap-2">
+              <Input readOnly value={shareUrl(createdId)} onFocus={(event) => event.target.select()} />
+              <Button variant="outline" size="icon" onClick={() => copy(createdId)}>
+                <Copy className="h-4 w-4" />
+                <span className="sr-only">Copy link</span>
+              </Button>
+            </div>
+          )}
+
+          {shares.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Links to this conversation</div>
+              <div className="max-h-48 overflow-y-auto divide-y rounded-md border text-sm">
+                {shares.map((share) => (
+                  <div key={share.id} className="flex items-center gap-2 p-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="truncate" title={share.title}>
+                        {share.messageId ? share.title : 'Whole conversation'}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        Created {new Date(share.createdAt).toLocaleDateString()} · {describeStatus(share)}
+                      </div>
+                    </div>
+                    {!share.revokedAt && new Date(share.expiresAt) > new Date() && (
+                      <>
+                        <Button variant="ghost" size="icon" onClick={() => copy(share.id)}>
+                          <Copy className="h-4 w-4" />
+                          <span className="sr-only">Copy link</span>
+                        </Button>
+                        <Button variant="ghost" size="icon" className="text-red-600" onClick={() => revoke(share.id)}>
+                          <Link2Off className="h-4 w-4" />
+                          <span className="sr-only">Revoke link</span>
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,78 @@
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { markdownComponents } from '@/components/ChatInterface';
+import { TraceTimeline } from '@/components/TraceTimeline';
+import { DataTable } from '@/components/DataTable';
+import { ResultChart } from '@/components/ResultChart';
+import type { ShareSummary, TranscriptEntry } from '@/lib/types';
+
+interface SharedConversationProps {
+  share: ShareSummary & { entries: TranscriptEntry[] };
+}
+
+// A read-only snapshot opened from a share link
+export function SharedConversation({ share }: SharedConversationProps) {
+  return (
+    <div className="flex flex-col max-w-4xl mx-auto">
+      <div className="px-4 pb-2 border-b dark:border-gray-700">
+        <div className="font-medium">{share.title}</div>
+        <div className="text-xs text-gray-500">
+          Shared {new Date(share.createdAt).toLocaleString()} · Link expires{' '}
+          {new Date(share.expiresAt).toLocaleString()}
+        </div>
+      </div>
+
+      <div className="space-y-4 p-4">
+        {share.entries.map((entry, index) => (
+          <div key={entry.id || index} className="space-y-4">
+            <div className={`flex ${entry.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[80%] rounded-lg p-4 ${
+                  entry.role === 'user'
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+                }`}
+              >
+                <ReactMarkdown
+                  className="prose dark:prose-invert max-w-none"
+                  components={markdownComponents}
+                  remarkPlugins={[remarkGfm]}
+                >
+                  {entry.content}
+                </ReactMarkdown>
+              </div>
+            </div>
+
+            {entry.charts?.map((chart, chartIndex) => (
+              <div key={chartIndex} className="flex justify-start">
+                <div className="max-w-[80%] w-full">
+                  <ResultChart chart={chart} />
+                </div>
+              </div>
+            ))}
+
+            {/* Exports re-run the query with the viewer's own session */}
+            {entry.table && (
+              <div className="flex justify-start">
+                <div className="max-w-[80%] w-full">
+                  <DataTable
+                    table={entry.table}
+                    exportSource={entry.id ? { shareId: share.id, messageId: entry.id } : undefined}
+                  />
+                </div>
+              </div>
+            )}
+
+            {entry.trace && entry.trace.length > 0 && (
+              <div className="flex justify-start">
+                <div className="max-w-[80%] w-full">
+                  <TraceTimeline steps={entry.trace} />
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { cn } from '@/lib/utils';
+import type { TraceStep } from '@/lib/types';
+
+interface TraceTimelineProps {
+  steps: TraceStep[];
+}
+
+export function TraceTimeline({ steps }: TraceTimelineProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100">
+        <ChevronRight className={cn('h-3 w-3 transition-transform', isOpen && 'rotate-90')} />
+        How this answer was derived ({steps.length} {steps.length === 1 ? 'step' : 'steps'})
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ol className="mt-2 ml-1.5 space-y-3 border-l border-gray-200 dark:border-gray-700">
+          {steps.map((step, index) => (
+            <li key={step.id} className="relative ml-4 text-xs">
+              <span
+                className={cn(
+                  'absolute -left-[21px] top-1 h-2.5 w-2.5 rounded-full',
+                  step.error ? 'bg-red-500' : 'bg-green-500'
+                )}
+              />
+              <div className="flex flex-wrap items-baseline gap-x-2 font-medium text-gray-800 dark:text-gray-200">
+                <span>
+                  {index + 1}. {step.tool}
+                </span>
+                <span className="font-normal text-gray-500">{step.durationMs} ms</span>
+                {step.requests.length > 0 && step.requests.every((request) => request.cached) && (
+                  <span className="font-normal text-blue-600">cache hit</span>
+                )}
+                {step.rowCount !== undefined && (
+                  <span className="font-normal text-gray-500">
+                    {step.rowCount} {step.rowCount === 1 ? 'row' : 'rows'}
+                  </span>
+                )}
+              </div>
+
+              {Object.keys(step.args).length > 0 && (
+                <pre className="mt-1 overflow-x-auto rounded bg-gray-100 dark:bg-gray-800 p-2 text-gray-700 dark:text-gray-300">
+                  {JSON.stringify(step.args, null, 2)}
+                </pre>
+              )}
+
+              {step.requests.map((request, requestIndex) => (
+                <div key={requestIndex} className="mt-1 flex gap-2 font-mono text-gray-500 break-all">
+                  <span>{request.method}</span>
+                  {request.cached ? (
+                    <span className="text-blue-600">cached</span>
+                  ) : (
+                    <span className={cn(request.status === null || request.status >= 400 ? 'text-red-600' : 'text-green-600')}>
+                      {request.status ?? 'failed'}
+                    </span>
+                  )}
+                  <span className="flex-1">{request.url}</span>
+                  <span>{request.durationMs} ms</span>
+                </div>
+              ))}
+
+              {step.error ? (
+                <div className="mt-1 text-red-600 dark:text-red-400">{step.error}</div>
+              ) : (
+                step.preview && (
+                  <pre className="mt-1 max-h-32 overflow-auto whitespace-pre-wrap break-all rounded bg-gray-100 dark:bg-gray-800 p-2 text-gray-600 dark:text-gray-400">
+                    {step.preview}
+                  </pre>
+                )
+              )}
+            </li>
+          ))}
+        </ol>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
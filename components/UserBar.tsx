@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
+import type { SessionUser } from '@/lib/types';
+
+interface UserBarProps {
+  user: SessionUser;
+  onLogout: () => void;
+}
+
+function displayName(user: SessionUser): string {
+  const fullName = [user.first_name, user.last_name].filter(Boolean).join(' ');
+  return user.name || fullName || user.email;
+}
+
+export function UserBar({ user, onLogout }: UserBarProps) {
+  const [isLoggingOut, setIsLoggingOut] = useState(false);
+  const { toast } = useToast();
+
+  const handleLogout = async () => {
+    setIsLoggingOut(true);
+
+    try {
+      const response = await fetch('/api/auth/logout', { method: 'POST' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to logout');
+      }
+
+      onLogout();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to logout',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoggingOut(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4 mb-4 text-sm">
+      <div className="flex items-center gap-2 min-w-0">
+        <span className="font-medium truncate">{displayName(user)}</span>
+        {user.role && <Badge variant="secondary">{user.role}</Badge>}
+      </div>
+      <Button variant="outline" size="sm" onClick={handleLogout} disabled={isLoggingOut}>
+        {isLoggingOut ? 'Logging out...' : 'Logout'}
+      </Button>
+    </div>
+  );
+}
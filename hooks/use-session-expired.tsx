@@ -0,0 +1,21 @@
+import * as React from "react"
+
+// Set by the page to ask the user to log in to DreamFactory again
+const SessionExpiredContext = React.createContext<() => void>(() => {})
+
+export const SessionExpiredProvider = SessionExpiredContext.Provider
+
+// Returns a handler that takes an API error body and reports whether the
+// DreamFactory session has expired, letting the page ask for a new login
+export function useSessionExpired() {
+  const onSessionExpired = React.useContext(SessionExpiredContext)
+
+  return React.useCallback(
+    (data: { type?: string } | null | undefined) => {
+      if (data?.type !== "session_expired") return false
+      onSessionExpired()
+      return true
+    },
+    [onSessionExpired]
+  )
+}
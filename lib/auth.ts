@@ -1,6 +1,7 @@
 import { cookies } from 'next/headers';
-
-const API_KEY = 'daf9692e1ec76c2623f3c1e5a951590a902931a2a8900d53520040fa04f8786c';
+import { NextResponse } from 'next/server';
+import { CredentialResolver } from './credentials';
+import { LoginOptions, LoginService, SessionUser } from './types';
 
 interface DreamFactorySession {
   session_token: string;
@@ -11,24 +12,66 @@ interface DreamFactorySession {
   last_name: string | null;
   last_login_date: string;
   host: string;
-  role: string;
+  role?: string;
+  role_id?: number;
+  is_sys_admin?: boolean;
+}
+
+// Role keys and user ids by session token, so that each session is looked up once
+const sessionIdentities = new Map<string, { role: string; userId: string }>();
+const MAX_SESSION_IDENTITIES = 1000;
+
+// Login services as listed under `authentication` by GET /system/environment
+interface DreamFactoryAuthEnvironment {
+  login_attribute?: string;
+  adldap?: { name: string; label?: string }[];
+  oauth?: { name: string; label?: string }[];
+}
+
+// The DreamFactory session token is missing, expired or could not be refreshed
+export class SessionExpiredError extends Error {
+  constructor(message: string = 'Your DreamFactory session has expired. Please log in again.') {
+    super(message);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+// The reply the client recognises to ask the user to log in again
+export function sessionExpiredResponse(error: SessionExpiredError) {
+  return NextResponse.json({ error: error.message, type: 'session_expired' }, { status: 401 });
 }
 
 export class AuthService {
+  static readonly SESSION_COOKIE = 'df_session_token';
+  // Remembers which OAuth service a login started with, since the provider
+  // only sends `code` and `state` back to the callback
+  static readonly OAUTH_SERVICE_COOKIE = 'df_oauth_service';
+  // Used when the token's own expiry cannot be read
+  static readonly SESSION_MAX_AGE = 60 * 60;
+  // Sessions this close to expiry are refreshed before handling a request
+  static readonly REFRESH_WINDOW_MS = 10 * 60 * 1000;
+
   private baseUrl: string;
 
   constructor(baseUrl: string) {
     this.baseUrl = baseUrl.replace(/\/+$/, '');
   }
 
-  async login(email: string, password: string): Promise<DreamFactorySession> {
-    const response = await fetch(`${this.baseUrl}/api/v2/user/session`, {
+  // Logs in with DreamFactory's own users, or with an LDAP/AD service when
+  // `service` is given. LDAP services and instances configured with the
+  // `username` login attribute identify users by username instead of email.
+  async login(
+    credentials: { email?: string; username?: string; password: string },
+    service?: string
+  ): Promise<DreamFactorySession> {
+    const query = service ? `?service=${encodeURIComponent(service)}` : '';
+    const response = await fetch(`${this.baseUrl}/api/v2/user/session${query}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'X-DreamFactory-API-Key': API_KEY,
+        'X-DreamFactory-API-Key': CredentialResolver.getApiKey(),
       },
-      body: JSON.stringify({ email, password }),
+      body: JSON.stringify(credentials),
     });
 
     if (!response.ok) {
@@ -40,16 +83,193 @@ export class AuthService {
     return session;
   }
 
+  // Lists the login services DreamFactory exposes through its environment endpoint
+  async getLoginOptions(): Promise<LoginOptions> {
+    const response = await fetch(`${this.baseUrl}/api/v2/system/environment`, {
+      headers: {
+        'X-DreamFactory-API-Key': CredentialResolver.getApiKey(),
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new Error(error?.error?.message || 'Failed to load login services');
+    }
+
+    const environment = await response.json();
+    const authentication: DreamFactoryAuthEnvironment = environment.authentication || {};
+    const loginAttribute = authentication.login_attribute === 'username' ? 'username' : 'email';
+
+    const services: LoginService[] = [
+      { name: '', label: 'DreamFactory', type: 'password' },
+      ...(authentication.adldap || []).map((service): LoginService => ({
+        name: service.name,
+        label: service.label || service.name,
+        type: 'ldap',
+      })),
+      ...(authentication.oauth || []).map((service): LoginService => ({
+        name: service.name,
+        label: service.label || service.name,
+        type: 'oauth',
+      })),
+    ];
+
+    return { loginAttribute, services };
+  }
+
+  // Starts an OAuth login: DreamFactory answers with the provider's
+  // authorization URL, which the browser is sent to
+  async getOAuthRedirectUrl(service: string): Promise<string> {
+    const response = await fetch(
+      `${this.baseUrl}/api/v2/user/session?service=${encodeURIComponent(service)}`,
+      {
+        method: 'POST',
+        headers: {
+          'X-DreamFactory-API-Key': CredentialResolver.getApiKey(),
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new Error(error?.error?.message || 'Failed to start OAuth login');
+    }
+
+    const data = await response.json();
+    const url = data.response?.url || data.url;
+    if (!url) {
+      throw new Error(`DreamFactory did not return an authorization URL for ${service}`);
+    }
+    return url;
+  }
+
+  // Finishes an OAuth login by handing the provider's callback parameters
+  // (code, state, ...) back to DreamFactory in exchange for a session
+  async completeOAuthLogin(service: string, callbackParams: URLSearchParams): Promise<DreamFactorySession> {
+    const params = new URLSearchParams(callbackParams);
+    params.set('oauth_callback', 'true');
+    params.set('service', service);
+
+    const response = await fetch(`${this.baseUrl}/api/v2/user/session?${params}`, {
+      headers: {
+        'X-DreamFactory-API-Key': CredentialResolver.getApiKey(),
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new Error(error?.error?.message || 'Failed to complete OAuth login');
+    }
+
+    const session = await response.json();
+    if (!session.session_token) {
+      throw new Error('DreamFactory did not return a session for the OAuth login');
+    }
+    return session;
+  }
+
+  // Looks up the user behind the current session via GET /user/session
+  async getSession(sessionToken: string): Promise<DreamFactorySession> {
+    const response = await fetch(`${this.baseUrl}/api/v2/user/session`, {
+      headers: {
+        'X-DreamFactory-API-Key': CredentialResolver.getApiKey(),
+        'X-DreamFactory-Session-Token': sessionToken,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      if (response.status === 401) {
+        throw new SessionExpiredError();
+      }
+      throw new Error(error?.error?.message || 'Failed to load session');
+    }
+
+    return response.json();
+  }
+
+  private async getIdentity(sessionToken: string): Promise<{ role: string; userId: string }> {
+    let identity = sessionIdentities.get(sessionToken);
+    if (!identity) {
+      const session = await this.getSession(sessionToken);
+      identity = {
+        role: session.is_sys_admin ? 'admin' : `role-${session.role_id ?? session.role ?? 'none'}`,
+        userId: String(session.id),
+      };
+
+      if (sessionIdentities.size >= MAX_SESSION_IDENTITIES) sessionIdentities.clear();
+      sessionIdentities.set(sessionToken, identity);
+    }
+    return identity;
+  }
+
+  // Identifies the session's role, for caches shared by users of the same role
+  async getRole(sessionToken: string): Promise<string> {
+    return (await this.getIdentity(sessionToken)).role;
+  }
+
+  // The DreamFactory user id, which owns saved conversations
+  async getUserId(sessionToken: string): Promise<string> {
+    return (await this.getIdentity(sessionToken)).userId;
+  }
+
+  // Exchanges a session token for a new one via PUT /user/session
+  async refresh(sessionToken: string): Promise<DreamFactorySession> {
+    const response = await fetch(`${this.baseUrl}/api/v2/user/session`, {
+      method: 'PUT',
+      headers: {
+        'X-DreamFactory-API-Key': CredentialResolver.getApiKey(),
+        'X-DreamFactory-Session-Token': sessionToken,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      if (response.status === 401) {
+        throw new SessionExpiredError();
+      }
+      throw new Error(error?.error?.message || 'Failed to refresh session');
+    }
+
+    return response.json();
+  }
+
+  // Returns the current session token, refreshing it first when it is about
+  // to expire. Throws SessionExpiredError when there is no usable session.
+  async ensureFreshSession(): Promise<string> {
+    const sessionToken = AuthService.getSessionToken();
+    if (!sessionToken) {
+      throw new SessionExpiredError();
+    }
+
+    const expiresAt = AuthService.getTokenExpiry(sessionToken);
+    if (expiresAt === null || expiresAt - Date.now() > AuthService.REFRESH_WINDOW_MS) {
+      return sessionToken;
+    }
+
+    try {
+      const session = await this.refresh(sessionToken);
+      AuthService.setSessionCookie(session.session_token);
+      return session.session_token;
+    } catch (error) {
+      if (error instanceof SessionExpiredError || expiresAt <= Date.now()) {
+        throw new SessionExpiredError();
+      }
+      // The token is still valid, so try again on the next request
+      console.error('Session refresh failed:', error);
+      return sessionToken;
+    }
+  }
+
   async logout(): Promise<void> {
-    const cookieStore = cookies();
-    const sessionToken = cookieStore.get('df_session_token')?.value;
+    const sessionToken = AuthService.getSessionToken();
 
     if (sessionToken) {
       try {
         await fetch(`${this.baseUrl}/api/v2/user/session`, {
           method: 'DELETE',
           headers: {
-            'X-DreamFactory-API-Key': API_KEY,
+            'X-DreamFactory-API-Key': CredentialResolver.getApiKey(),
             'X-DreamFactory-Session-Token': sessionToken,
           },
         });
@@ -59,8 +279,53 @@ export class AuthService {
     }
   }
 
+  static toSessionUser(session: DreamFactorySession): SessionUser {
+    return {
+      id: session.id,
+      email: session.email,
+      name: session.name,
+      first_name: session.first_name,
+      last_name: session.last_name,
+      // System administrators have no role of their own
+      role: session.role || (session.is_sys_admin ? 'System administrator' : null),
+    };
+  }
+
   static getSessionToken(): string | undefined {
     const cookieStore = cookies();
-    return cookieStore.get('df_session_token')?.value;
+    return cookieStore.get(AuthService.SESSION_COOKIE)?.value;
+  }
+
+  // Stores the session token in an HTTP-only cookie that lives as long as the token
+  static setSessionCookie(sessionToken: string): void {
+    const expiresAt = AuthService.getTokenExpiry(sessionToken);
+    const maxAge = expiresAt !== null
+      ? Math.max(0, Math.floor((expiresAt - Date.now()) / 1000))
+      : AuthService.SESSION_MAX_AGE;
+
+    const cookieStore = cookies();
+    cookieStore.set(AuthService.SESSION_COOKIE, sessionToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge,
+    });
+    // The session is only usable with the app key it was created with
+    CredentialResolver.renewCookies(maxAge);
+  }
+
+  // DreamFactory session tokens are JWTs; returns the `exp` claim in
+  // milliseconds, or null when the token cannot be decoded
+  static getTokenExpiry(sessionToken: string): number | null {
+    try {
+      const payload = sessionToken.split('.')[1];
+      if (!payload) return null;
+
+      const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+      const { exp } = JSON.parse(json);
+      return typeof exp === 'number' ? exp * 1000 : null;
+    } catch (error) {
+      return null;
+    }
   }
 } 
\ No newline at end of file
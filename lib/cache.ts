@@ -0,0 +1,193 @@
+// Key/value stores shared across requests. Both implementations only use
+// Map and fetch, so they work under the edge runtime as well as in Node.
+export interface CacheStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+// Least-recently-used cache held by the current server/edge instance
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, MemoryEntry>();
+
+  constructor(private maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+
+    // Re-insert so that Map order tracks recency
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+// Redis-style REST key/value service (Upstash, Vercel KV, ...), shared by
+// every instance of the app
+export class KVCacheStore implements CacheStore {
+  private baseUrl: string;
+
+  constructor(baseUrl: string, private token: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  private async command(path: string, body?: string): Promise<any> {
+    const response = await fetch(`${this.baseUrl}/${path}`, {
+      method: body === undefined ? 'GET' : 'POST',
+      headers: { Authorization: `Bearer ${this.token}` },
+      body,
+    });
+
+    if (!response.ok) {
+      throw new Error(`KV request failed: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    try {
+      const { result } = await this.command(`get/${encodeURIComponent(key)}`);
+      return result === null || result === undefined ? undefined : JSON.parse(result);
+    } catch (error) {
+      // A cache miss is always safe
+      console.error('KV cache read failed:', error);
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    try {
+      const seconds = Math.max(1, Math.ceil(ttlMs / 1000));
+      await this.command(`set/${encodeURIComponent(key)}?EX=${seconds}`, JSON.stringify(value));
+    } catch (error) {
+      console.error('KV cache write failed:', error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command(`del/${encodeURIComponent(key)}`);
+  }
+}
+
+let sharedStore: CacheStore | undefined;
+
+// SCHEMA_CACHE_STORE selects `memory` (default) or `kv`, which reads
+// KV_REST_API_URL and KV_REST_API_TOKEN
+export function getSharedCacheStore(): CacheStore {
+  if (!sharedStore) {
+    if (process.env.SCHEMA_CACHE_STORE === 'kv') {
+      if (!process.env.KV_REST_API_URL || !process.env.KV_REST_API_TOKEN) {
+        throw new Error('SCHEMA_CACHE_STORE=kv requires KV_REST_API_URL and KV_REST_API_TOKEN');
+      }
+      sharedStore = new KVCacheStore(process.env.KV_REST_API_URL, process.env.KV_REST_API_TOKEN);
+    } else {
+      sharedStore = new MemoryCacheStore(Number(process.env.SCHEMA_CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES);
+    }
+  }
+  return sharedStore;
+}
+
+const DEFAULT_SCHEMA_TTL_MS = 10 * 60 * 1000;
+
+interface SchemaEntry<T> {
+  value: T;
+  cachedAt: number;
+}
+
+// DreamFactory schemas shared across requests. Entries are scoped by
+// DreamFactory URL and role, since roles see different services and tables.
+// Invalidation records a timestamp instead of deleting keys, so it works
+// with stores that cannot list their keys; entries cached before it are
+// ignored, whichever role they belong to.
+export class SchemaCache {
+  // Key of data derived from every service's schema, such as the prompt digest
+  static readonly DIGEST_KEY = '_digest';
+
+  private urlScope: string;
+  private scope: string;
+  private ttlMs: number;
+  private invalidatedAt = new Map<string, Promise<number>>();
+
+  constructor(
+    baseUrl: string,
+    role: string,
+    private store: CacheStore = getSharedCacheStore(),
+    ttlMs?: number
+  ) {
+    this.urlScope = `schema:${baseUrl.replace(/\/+$/, '')}`;
+    this.scope = `${this.urlScope}:role:${role}`;
+    this.ttlMs = ttlMs ?? (Number(process.env.SCHEMA_CACHE_TTL_MS) || DEFAULT_SCHEMA_TTL_MS);
+  }
+
+  // The service name, URL-encoded as in every schema endpoint, is the
+  // endpoint's first path segment
+  private static serviceOf(endpoint: string): string {
+    return endpoint.split('/')[0];
+  }
+
+  // Read once per SchemaCache, i.e. once per request
+  private getInvalidatedAt(marker: string): Promise<number> {
+    if (!this.invalidatedAt.has(marker)) {
+      this.invalidatedAt.set(
+        marker,
+        this.store.get<number>(`${this.urlScope}:invalidated:${marker}`).then(value => value || 0)
+      );
+    }
+    return this.invalidatedAt.get(marker)!;
+  }
+
+  async get<T>(endpoint: string): Promise<T | undefined> {
+    const entry = await this.store.get<SchemaEntry<T>>(`${this.scope}:${endpoint}`);
+    if (!entry) return undefined;
+
+    const [all, service] = await Promise.all([
+      this.getInvalidatedAt('*'),
+      this.getInvalidatedAt(SchemaCache.serviceOf(endpoint)),
+    ]);
+    return entry.cachedAt > Math.max(all, service) ? entry.value : undefined;
+  }
+
+  async set<T>(endpoint: string, value: T): Promise<void> {
+    await this.store.set<SchemaEntry<T>>(
+      `${this.scope}:${endpoint}`,
+      { value, cachedAt: Date.now() },
+      this.ttlMs
+    );
+  }
+
+  // Drops the cached schemas of one service, or of all services, along with
+  // anything derived from them. The markers only need to outlive the entries
+  // they hide.
+  async invalidate(serviceName?: string): Promise<void> {
+    const markers = serviceName ? [encodeURIComponent(serviceName), SchemaCache.DIGEST_KEY] : ['*'];
+    const now = Date.now();
+    await Promise.all(
+      markers.map(marker => this.store.set(`${this.urlScope}:invalidated:${marker}`, now, this.ttlMs))
+    );
+    markers.forEach(marker => this.invalidatedAt.set(marker, Promise.resolve(now)));
+  }
+}
@@ -0,0 +1,214 @@
+import { z } from 'zod';
+import { AggregateResult, ChartData, ChartDataset, QueryResultPage } from './types';
+
+const MAX_CHART_POINTS = 200;
+const MAX_CHART_SERIES = 8;
+
+export class ChartError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChartError';
+  }
+}
+
+// The chart the model asks for. Fields refer to the rows of an earlier
+// queryTable or aggregateTable call; the rows themselves are never sent back.
+export const chartSpecSchema = z
+  .object({
+    type: z.enum(['bar', 'line', 'area', 'pie']),
+    title: z.string().trim().min(1).max(120),
+    x: z.string().trim().min(1),
+    y: z.array(z.string().trim().min(1)).min(1).max(MAX_CHART_SERIES),
+    series: z.string().trim().min(1).optional(),
+    tableName: z.string().trim().min(1).optional(),
+  })
+  .strict()
+  .superRefine((spec, context) => {
+    if (spec.series && spec.y.length > 1) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['y'],
+        message: 'Only one y field can be split into series',
+      });
+    }
+    if (spec.type === 'pie' && (spec.series || spec.y.length > 1)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['y'],
+        message: 'A pie chart shows a single y field without series',
+      });
+    }
+  });
+
+export type ChartSpec = z.infer<typeof chartSpecSchema>;
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+// Numbers, and numeric strings such as DreamFactory decimals
+function toNumber(value: any): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+  }
+  return null;
+}
+
+function toLabel(value: any): string | number {
+  if (typeof value === 'number') return value;
+  if (value === null || value === undefined) return '(empty)';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// The row key for a field, ignoring case
+function findKey(rows: Record<string, any>[], field: string): string | undefined {
+  const wanted = field.toLowerCase();
+  for (const row of rows) {
+    const key = Object.keys(row).find(name => name.toLowerCase() === wanted);
+    if (key) return key;
+  }
+  return undefined;
+}
+
+// Turns validated chart requests into chart data from the rows fetched
+// while answering
+export class ChartBuilder {
+  // The rows of a tool result that a chart can plot
+  static toDataset(toolName: string, args: any, result: any): ChartDataset | undefined {
+    if (toolName === 'queryTable' && Array.isArray((result as QueryResultPage)?.records)) {
+      return { tableName: args.tableName, rows: result.records };
+    }
+    if (toolName === 'aggregateTable' && Array.isArray((result as AggregateResult)?.groups)) {
+      const groups = (result as AggregateResult).groups;
+      return {
+        tableName: args.tableName,
+        rows: groups.map(group => ({ ...group.group, ...group.values })),
+        additiveFields: Array.from(
+          new Set(groups.flatMap(group => Object.keys(group.values).filter(label => /^(count|sum)_/.test(label))))
+        ),
+      };
+    }
+    return undefined;
+  }
+
+  // Draws from the most recent dataset that has every field the spec names
+  static build(input: unknown, datasets: ChartDataset[]): ChartData {
+    const parsed = chartSpecSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new ChartError(`Invalid chart: ${describeIssues(parsed.error)}`);
+    }
+    const spec = parsed.data;
+
+    const candidates = datasets.filter(
+      dataset => !spec.tableName || dataset.tableName.toLowerCase() === spec.tableName.toLowerCase()
+    );
+    if (candidates.length === 0) {
+      throw new ChartError(
+        spec.tableName
+          ? `No rows from ${spec.tableName} have been fetched yet. Call queryTable or aggregateTable on it first.`
+          : 'No rows have been fetched yet. Call queryTable or aggregateTable first, then renderChart.'
+      );
+    }
+
+    const fields = [spec.x, ...spec.y, ...(spec.series ? [spec.series] : [])];
+    const dataset = [...candidates].reverse().find(
+      candidate => candidate.rows.length > 0 && fields.every(field => findKey(candidate.rows, field))
+    );
+    if (!dataset) {
+      const latest = candidates[candidates.length - 1];
+      const available = Array.from(new Set(latest.rows.flatMap(row => Object.keys(row))));
+      throw new ChartError(
+        `No fetched rows have all of ${fields.join(', ')}. The latest rows from ${latest.tableName} have: ` +
+          `${available.join(', ') || 'no fields'}. For aggregateTable results, use the group fields and metric labels.`
+      );
+    }
+
+    const xKey = findKey(dataset.rows, spec.x)!;
+    const yKeys = spec.y.map(field => findKey(dataset.rows, field)!);
+    const seriesKey = spec.series && findKey(dataset.rows, spec.series);
+    const notes: string[] = [];
+
+    // One series per y field, or per distinct value of the series field
+    let series: { key: string; label: string; field: string; value?: any }[];
+    if (seriesKey) {
+      const values = Array.from(new Set(dataset.rows.map(row => toLabel(row[seriesKey]))));
+      if (values.length > MAX_CHART_SERIES) {
+        notes.push(`Only the first ${MAX_CHART_SERIES} of ${values.length} ${seriesKey} values are shown.`);
+      }
+      series = values.slice(0, MAX_CHART_SERIES).map((value, index) => ({
+        key: `s${index}`,
+        label: String(value),
+        field: yKeys[0],
+        value,
+      }));
+    } else {
+      series = yKeys.map((field, index) => ({ key: `s${index}`, label: field, field }));
+    }
+
+    // Rows with the same x value are merged into one point. Only counts and
+    // sums can be added up; averages, raw values and the like can't, so those
+    // rows have to be grouped by x first.
+    const additive = new Set((dataset.additiveFields || []).map(field => field.toLowerCase()));
+    const points = new Map<string | number, Record<string, string | number | null>>();
+    let summed = false;
+    for (const row of dataset.rows) {
+      const x = toLabel(row[xKey]);
+      const point = points.get(x) || { x };
+      for (const item of series) {
+        if (seriesKey && toLabel(row[seriesKey]) !== item.value) continue;
+        const value = toNumber(row[item.field]);
+        const current = point[item.key];
+        if (current === undefined || current === null) {
+          point[item.key] = value;
+        } else if (value !== null) {
+          if (!additive.has(item.field.toLowerCase())) {
+            throw new ChartError(
+              `Several rows have ${xKey} ${JSON.stringify(x)}${seriesKey ? ` in one series` : ''}, and their ${item.field} ` +
+                `values can't be added up. Call aggregateTable grouped by ${[xKey, ...(seriesKey ? [seriesKey] : [])].join(' and ')} ` +
+                `to get one value per point, then chart its result.`
+            );
+          }
+          point[item.key] = (current as number) + value;
+          summed = true;
+        }
+      }
+      points.set(x, point);
+    }
+    if (summed) {
+      notes.push(`Counts and sums of groups with the same ${xKey} were added up.`);
+    }
+
+    for (const item of series) {
+      if (!Array.from(points.values()).some(point => typeof point[item.key] === 'number')) {
+        throw new ChartError(`${item.field} has no numeric values to plot. Choose a numeric y field.`);
+      }
+    }
+
+    let rows = Array.from(points.values());
+    // Lines and areas follow the x axis, e.g. years in order
+    if (spec.type === 'line' || spec.type === 'area') {
+      rows.sort((a, b) =>
+        typeof a.x === 'number' && typeof b.x === 'number'
+          ? a.x - b.x
+          : String(a.x).localeCompare(String(b.x), undefined, { numeric: true })
+      );
+    }
+    if (rows.length > MAX_CHART_POINTS) {
+      notes.push(`Only the first ${MAX_CHART_POINTS} of ${rows.length} points are shown.`);
+      rows = rows.slice(0, MAX_CHART_POINTS);
+    }
+
+    return {
+      type: spec.type,
+      title: spec.title,
+      xLabel: xKey,
+      series: series.map(({ key, label }) => ({ key, label })),
+      rows,
+      note: notes.length > 0 ? notes.join(' ') : undefined,
+    };
+  }
+}
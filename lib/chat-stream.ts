@@ -0,0 +1,52 @@
+import { ChatStreamEvent } from './types';
+
+// Streams the events of one chat turn as server-sent events. `run` reports
+// progress through `send` and resolves with the final `done` event;
+// `toErrorEvent` turns a failure into the final `error` event instead.
+// Once the client has gone away, further events are dropped.
+export function chatEventStream(
+  run: (send: (event: ChatStreamEvent) => void) => Promise<ChatStreamEvent>,
+  toErrorEvent: (error: unknown) => ChatStreamEvent
+): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          // The stream errored or was cancelled in between
+          closed = true;
+        }
+      };
+
+      try {
+        send(await run(send));
+      } catch (error) {
+        send(toErrorEvent(error));
+      }
+
+      if (closed) return;
+      closed = true;
+      try {
+        controller.close();
+      } catch {
+        // Already closed by the runtime
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
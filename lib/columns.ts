@@ -0,0 +1,94 @@
+import { isUnavailableResource, type DreamFactoryTool } from './dreamfactory';
+import { ColumnMatch } from './types';
+import { normalizeName, scoreNameMatch } from './fuzzy';
+import { mapWithConcurrency } from './utils';
+
+// Tables whose schemas are read to build a service's index
+const MAX_INDEXED_TABLES = 1000;
+const SCHEMA_FETCH_CONCURRENCY = 8;
+const DEFAULT_MATCH_LIMIT = 25;
+// Matches scoring lower than this are not returned
+const MIN_MATCH_SCORE = 0.4;
+
+export interface IndexedColumn {
+  table: string;
+  column: string;
+  label?: string;
+  type: string;
+}
+
+// The serializable form of an index, as cached with the service's schemas
+export interface ColumnIndexData {
+  columns: IndexedColumn[];
+}
+
+// Every column of a service, for finding tables by column name, label or type
+export class ColumnIndex {
+  private byName = new Map<string, IndexedColumn[]>();
+
+  constructor(private data: ColumnIndexData) {
+    for (const column of data.columns) {
+      const key = normalizeName(column.column);
+      this.byName.set(key, [...(this.byName.get(key) || []), column]);
+    }
+  }
+
+  // Reads table schemas in parallel, a few at a time. Failures other than a
+  // table becoming unavailable fail the index rather than cache it incomplete.
+  static async collect(dreamFactoryTool: DreamFactoryTool, serviceName: string): Promise<ColumnIndexData> {
+    const tables = (await dreamFactoryTool.listTables(serviceName)).slice(0, MAX_INDEXED_TABLES);
+
+    const columns = await mapWithConcurrency(tables, SCHEMA_FETCH_CONCURRENCY, async table => {
+      try {
+        const schema = await dreamFactoryTool.getTableSchema(serviceName, table);
+        return (schema.field || schema.fields || []).map((field: any): IndexedColumn => ({
+          table,
+          column: field.name,
+          label: field.label && field.label !== field.name ? field.label : undefined,
+          type: field.type,
+        }));
+      } catch (error) {
+        if (!isUnavailableResource(error)) throw error;
+        return [];
+      }
+    });
+
+    return { columns: columns.flat() };
+  }
+
+  get columns(): IndexedColumn[] {
+    return this.data.columns;
+  }
+
+  // Tables with a column of exactly this name, ignoring case and separators
+  findExact(columnName: string): IndexedColumn[] {
+    return this.byName.get(normalizeName(columnName)) || [];
+  }
+
+  // Columns whose name or label resembles `query` ("surname" finds last_name),
+  // optionally of one DreamFactory type, best matches first
+  search(query: string, type?: string, limit: number = DEFAULT_MATCH_LIMIT): ColumnMatch[] {
+    const matches: ColumnMatch[] = [];
+
+    for (const column of this.data.columns) {
+      if (type && column.type !== type) continue;
+
+      const nameScore = scoreNameMatch(query, column.column);
+      const labelScore = column.label ? scoreNameMatch(query, column.label) * 0.95 : 0;
+      const score = Math.max(nameScore, labelScore);
+
+      if (score >= MIN_MATCH_SCORE) {
+        matches.push({
+          table: column.table,
+          column: column.column,
+          label: column.label,
+          type: column.type,
+          score: Math.round(score * 100) / 100,
+          matchedOn: labelScore > nameScore ? 'label' : 'name',
+        });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
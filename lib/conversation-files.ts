@@ -0,0 +1,66 @@
+// Node.js only: imported by getConversationBackend when CONVERSATION_STORE=file
+// and the route runs on Node, so that edge bundles never include fs
+import { rm } from 'fs/promises';
+import path from 'path';
+import { Conversation, ConversationSummary } from './types';
+import { ConversationBackend, ConversationOwnershipError, byRecency, matchesSearch, toSummary } from './conversations';
+import { readJsonFile, readJsonFiles, writeJsonFile } from './json-files';
+
+// One JSON file per conversation under a directory per user, for local
+// development
+export class FileConversationBackend implements ConversationBackend {
+  // Conditional writes in progress, by file; other server processes are not locked out
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(private directory: string = path.join(process.cwd(), '.data', 'conversations')) {}
+
+  private userDirectory(userId: string): string {
+    return path.join(this.directory, encodeURIComponent(userId));
+  }
+
+  private filePath(userId: string, id: string): string {
+    return path.join(this.userDirectory(userId), `${encodeURIComponent(id)}.json`);
+  }
+
+  // A file moved into another user's directory stays its owner's
+  async get(userId: string, id: string): Promise<Conversation | undefined> {
+    const conversation = await readJsonFile<Conversation>(this.filePath(userId, id));
+    return conversation?.userId === userId ? conversation : undefined;
+  }
+
+  async list(userId: string, search?: string): Promise<ConversationSummary[]> {
+    return (await readJsonFiles<Conversation>(this.userDirectory(userId)))
+      .filter(conversation => conversation.userId === userId && matchesSearch(conversation, search))
+      .map(toSummary)
+      .sort(byRecency);
+  }
+
+  async put(conversation: Conversation): Promise<void> {
+    const file = this.filePath(conversation.userId, conversation.id);
+    const stored = await readJsonFile<Conversation>(file);
+    if (stored && stored.userId !== conversation.userId) throw new ConversationOwnershipError();
+
+    await writeJsonFile(file, conversation);
+  }
+
+  async putIfUnchanged(conversation: Conversation, expectedUpdatedAt?: string): Promise<boolean> {
+    const file = this.filePath(conversation.userId, conversation.id);
+    const write = (this.locks.get(file) || Promise.resolve()).catch(() => undefined).then(async () => {
+      const stored = await this.get(conversation.userId, conversation.id);
+      if (stored?.updatedAt !== expectedUpdatedAt) return false;
+      await this.put(conversation);
+      return true;
+    });
+
+    this.locks.set(file, write);
+    try {
+      return await write;
+    } finally {
+      if (this.locks.get(file) === write) this.locks.delete(file);
+    }
+  }
+
+  async delete(userId: string, id: string): Promise<void> {
+    await rm(this.filePath(userId, id), { force: true });
+  }
+}
@@ -0,0 +1,596 @@
+import { ChatMessage, Conversation, ConversationSummary, RecordChange, TraceStep } from './types';
+import { DreamFactoryTool } from './dreamfactory';
+import { FilterNode, escapeLike } from './filters';
+import { loadOnNode, processSingleton } from './stores';
+
+// Rough character budget for replayed history (~4 characters per token)
+const MAX_HISTORY_CHARS = 48000;
+// Number of most recent user turns that are replayed unless they alone are
+// over the budget
+const KEEP_RECENT_TURNS = 4;
+// Length replayed tool results are cut to when the recent turns are over the budget
+const MAX_REPLAYED_TOOL_CHARS = 2000;
+// Generated titles are shorter than those users may choose
+const MAX_TITLE_LENGTH = 60;
+const MAX_CUSTOM_TITLE_LENGTH = 120;
+// Times a conversation is reloaded when other requests keep saving it
+const MAX_SAVE_ATTEMPTS = 5;
+// A change still `applying` after this long was interrupted, e.g. by a crash
+// or a timeout, and is treated as failed
+const APPLYING_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Another user's conversation already has the id of the one being saved
+export class ConversationOwnershipError extends Error {
+  constructor(message: string = 'The conversation belongs to another user') {
+    super(message);
+    this.name = 'ConversationOwnershipError';
+  }
+}
+
+// Where conversations are kept. Every method is scoped to one user, and
+// writes throw ConversationOwnershipError rather than replace another
+// user's conversation.
+export interface ConversationBackend {
+  get(userId: string, id: string): Promise<Conversation | undefined>;
+  // Most recently updated first, optionally only those mentioning `search`
+  list(userId: string, search?: string): Promise<ConversationSummary[]>;
+  put(conversation: Conversation): Promise<void>;
+  // Writes the conversation only if the stored copy was last updated at
+  // `expectedUpdatedAt`, or isn't stored yet when that is undefined, so that
+  // concurrent requests can't both act on it
+  putIfUnchanged(conversation: Conversation, expectedUpdatedAt?: string): Promise<boolean>;
+  delete(userId: string, id: string): Promise<void>;
+}
+
+// Characters of history replayed to the model, including the summary
+function historySize(conversation: Conversation): number {
+  return conversation.messages.reduce((total, msg) => total + msg.content.length, conversation.summary?.length || 0);
+}
+
+// Cuts content to at most `maxChars`, noting how much was left out
+function shorten(content: string, maxChars: number): string {
+  if (content.length <= maxChars) return content;
+  const marker = `… [${content.length} characters, shortened]`;
+  return maxChars > marker.length ? content.slice(0, maxChars - marker.length) + marker : content.slice(0, maxChars);
+}
+
+export function toSummary(conversation: Conversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    pinned: Boolean(conversation.pinned),
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+  };
+}
+
+// Whether the title or any displayed message contains the search text
+export function matchesSearch(conversation: Conversation, search?: string): boolean {
+  const needle = search?.trim().toLowerCase();
+  if (!needle) return true;
+  return [conversation.title, ...conversation.transcript.map(entry => entry.content)]
+    .some(text => text.toLowerCase().includes(needle));
+}
+
+export function byRecency(a: ConversationSummary, b: ConversationSummary): number {
+  return b.updatedAt.localeCompare(a.updatedAt);
+}
+
+// Held by the current server instance and lost on restart. Copies are
+// stored and returned, as with the other backends.
+export class MemoryConversationBackend implements ConversationBackend {
+  private conversations = new Map<string, Conversation>();
+
+  async get(userId: string, id: string): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(id);
+    return conversation?.userId === userId ? structuredClone(conversation) : undefined;
+  }
+
+  async list(userId: string, search?: string): Promise<ConversationSummary[]> {
+    return Array.from(this.conversations.values())
+      .filter(conversation => conversation.userId === userId && matchesSearch(conversation, search))
+      .map(toSummary)
+      .sort(byRecency);
+  }
+
+  // Conversations are kept by id alone, so the owner is checked before writing
+  private checkOwner(conversation: Conversation): void {
+    const stored = this.conversations.get(conversation.id);
+    if (stored && stored.userId !== conversation.userId) throw new ConversationOwnershipError();
+  }
+
+  async put(conversation: Conversation): Promise<void> {
+    this.checkOwner(conversation);
+    this.conversations.set(conversation.id, structuredClone(conversation));
+  }
+
+  async putIfUnchanged(conversation: Conversation, expectedUpdatedAt?: string): Promise<boolean> {
+    this.checkOwner(conversation);
+    if (this.conversations.get(conversation.id)?.updatedAt !== expectedUpdatedAt) return false;
+    this.conversations.set(conversation.id, structuredClone(conversation));
+    return true;
+  }
+
+  async delete(userId: string, id: string): Promise<void> {
+    if (await this.get(userId, id)) this.conversations.delete(id);
+  }
+}
+
+// Row of the conversations table. `data` holds the messages, transcript,
+// changes and summary as JSON.
+interface ConversationRecord {
+  id: string;
+  user_id: string;
+  title: string;
+  pinned: boolean;
+  data?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A table in a DreamFactory database service with the columns of
+// ConversationRecord (id as a string primary key, data as text). Requests
+// use the signed-in user's session, so the role needs access to the table.
+// Every query and update here is filtered on user_id, but users could still
+// call the table's API directly: give the role a record-level filter
+// (Advanced Filters in the role's service access) of `user_id = {user.id}`
+// on the table so that DreamFactory itself keeps each user to their rows.
+export class DreamFactoryConversationBackend implements ConversationBackend {
+  constructor(
+    private dreamFactoryTool: DreamFactoryTool,
+    private serviceName: string,
+    private tableName: string
+  ) {}
+
+  private filter(filter: FilterNode): Promise<string> {
+    return this.dreamFactoryTool.compileServiceFilter(this.serviceName, filter);
+  }
+
+  private ownFilter(userId: string, id?: string): Promise<string> {
+    return this.filter({
+      op: 'and',
+      conditions: [
+        { op: 'eq', field: 'user_id', value: userId },
+        ...(id ? [{ op: 'eq' as const, field: 'id', value: id }] : []),
+      ],
+    });
+  }
+
+  async get(userId: string, id: string): Promise<Conversation | undefined> {
+    const response = await this.dreamFactoryTool.queryTable<ConversationRecord>(this.serviceName, this.tableName, {
+      filter: await this.ownFilter(userId, id),
+      limit: 1,
+    });
+    const [record] = response.resource || [];
+    if (!record) return undefined;
+
+    return {
+      ...JSON.parse(record.data || '{}'),
+      id: record.id,
+      userId: record.user_id,
+      title: record.title,
+      pinned: Boolean(record.pinned),
+      createdAt: record.created_at,
+      updatedAt: record.updated_at,
+    };
+  }
+
+  async list(userId: string, search?: string): Promise<ConversationSummary[]> {
+    const needle = search?.trim();
+    const filter = needle
+      ? await this.filter({
+          op: 'and',
+          conditions: [
+            { op: 'eq', field: 'user_id', value: userId },
+            {
+              op: 'or',
+              conditions: [
+                { op: 'like', field: 'title', value: `%${escapeLike(needle)}%` },
+                { op: 'like', field: 'data', value: `%${escapeLike(needle)}%` },
+              ],
+            },
+          ],
+        })
+      : await this.ownFilter(userId);
+
+    const response = await this.dreamFactoryTool.queryTable<ConversationRecord>(this.serviceName, this.tableName, {
+      filter,
+      fields: ['id', 'title', 'pinned', 'created_at', 'updated_at'],
+      order: 'updated_at DESC',
+    });
+    return (response.resource || []).map(record => ({
+      id: record.id,
+      title: record.title,
+      pinned: Boolean(record.pinned),
+      createdAt: record.created_at,
+      updatedAt: record.updated_at,
+    }));
+  }
+
+  private toRecord(conversation: Conversation): ConversationRecord {
+    const { id, userId, title, pinned, createdAt, updatedAt, ...data } = conversation;
+    return {
+      id,
+      user_id: userId,
+      title,
+      pinned: Boolean(pinned),
+      data: JSON.stringify(data),
+      created_at: createdAt,
+      updated_at: updatedAt,
+    };
+  }
+
+  // Creates the record, which fails on the primary key if the id is taken.
+  // Returns false if the user's own conversation took it first.
+  private async create(conversation: Conversation): Promise<boolean> {
+    try {
+      await this.dreamFactoryTool.writeRecords(this.serviceName, this.tableName, 'create', [this.toRecord(conversation)]);
+      return true;
+    } catch (error) {
+      if (await this.get(conversation.userId, conversation.id)) return false;
+
+      // Only found when the role may see other users' rows
+      const response = await this.dreamFactoryTool.queryTable<ConversationRecord>(this.serviceName, this.tableName, {
+        filter: await this.filter({ op: 'eq', field: 'id', value: conversation.id }),
+        fields: ['id', 'user_id'],
+        limit: 1,
+      });
+      if ((response.resource || []).some(record => record.user_id !== conversation.userId)) {
+        throw new ConversationOwnershipError();
+      }
+      throw error;
+    }
+  }
+
+  // Updates are filtered on the owner as well as the id
+  async put(conversation: Conversation): Promise<void> {
+    if (!(await this.get(conversation.userId, conversation.id)) && await this.create(conversation)) return;
+
+    await this.dreamFactoryTool.updateRecordsWhere(
+      this.serviceName,
+      this.tableName,
+      await this.ownFilter(conversation.userId, conversation.id),
+      this.toRecord(conversation)
+    );
+  }
+
+  // A single update filtered on updated_at, so the database decides which
+  // of two concurrent writes wins. New conversations are created, which
+  // fails on the primary key if another request created it first.
+  async putIfUnchanged(conversation: Conversation, expectedUpdatedAt?: string): Promise<boolean> {
+    if (expectedUpdatedAt === undefined) return this.create(conversation);
+
+    const filter = await this.filter({
+      op: 'and',
+      conditions: [
+        { op: 'eq', field: 'id', value: conversation.id },
+        { op: 'eq', field: 'user_id', value: conversation.userId },
+        { op: 'eq', field: 'updated_at', value: expectedUpdatedAt },
+      ],
+    });
+    const response = await this.dreamFactoryTool.updateRecordsWhere(
+      this.serviceName,
+      this.tableName,
+      filter,
+      this.toRecord(conversation)
+    );
+    return (response.resource || []).length > 0;
+  }
+
+  async delete(userId: string, id: string): Promise<void> {
+    if (await this.get(userId, id)) {
+      await this.dreamFactoryTool.writeRecords(this.serviceName, this.tableName, 'delete', [{ id }]);
+    }
+  }
+}
+
+// The file backend, imported on first use (see loadOnNode)
+class LazyFileConversationBackend implements ConversationBackend {
+  private load: () => Promise<ConversationBackend>;
+
+  constructor(directory?: string) {
+    this.load = loadOnNode(() =>
+      import('./conversation-files').then(({ FileConversationBackend }) => new FileConversationBackend(directory))
+    );
+  }
+
+  async get(userId: string, id: string): Promise<Conversation | undefined> {
+    return (await this.load()).get(userId, id);
+  }
+
+  async list(userId: string, search?: string): Promise<ConversationSummary[]> {
+    return (await this.load()).list(userId, search);
+  }
+
+  async put(conversation: Conversation): Promise<void> {
+    return (await this.load()).put(conversation);
+  }
+
+  async putIfUnchanged(conversation: Conversation, expectedUpdatedAt?: string): Promise<boolean> {
+    return (await this.load()).putIfUnchanged(conversation, expectedUpdatedAt);
+  }
+
+  async delete(userId: string, id: string): Promise<void> {
+    return (await this.load()).delete(userId, id);
+  }
+}
+
+let warnedAboutLocalStore = false;
+
+// CONVERSATION_STORE, defaulting to `dreamfactory` when
+// CONVERSATION_STORE_SERVICE is set and to `memory` otherwise. Share links
+// are kept in the same kind of store.
+export function selectedStore(): string {
+  const store = process.env.CONVERSATION_STORE || (process.env.CONVERSATION_STORE_SERVICE ? 'dreamfactory' : 'memory');
+  if (store !== 'dreamfactory' && process.env.NODE_ENV === 'production' && !warnedAboutLocalStore) {
+    // Memory and files are not shared between server instances, so history
+    // and share links may go missing when there are several
+    console.warn(
+      `CONVERSATION_STORE=${store} keeps conversations on one server instance; ` +
+      'set CONVERSATION_STORE=dreamfactory and CONVERSATION_STORE_SERVICE to share them'
+    );
+    warnedAboutLocalStore = true;
+  }
+  return store;
+}
+
+// `dreamfactory` uses the CONVERSATION_STORE_TABLE table (default
+// df_chat_conversations) of the CONVERSATION_STORE_SERVICE database service;
+// `file` writes under CONVERSATION_STORE_DIR (default .data/conversations).
+// The memory and file stores are only shared by routes on the Node.js runtime.
+export function getConversationBackend(): ConversationBackend {
+  const store = selectedStore();
+
+  if (store === 'dreamfactory') {
+    if (!process.env.CONVERSATION_STORE_SERVICE) {
+      throw new Error('CONVERSATION_STORE=dreamfactory requires CONVERSATION_STORE_SERVICE');
+    }
+    // Not shared: requests carry the current user's session
+    return new DreamFactoryConversationBackend(
+      new DreamFactoryTool(process.env.DREAMFACTORY_URL || 'http://localhost:8080'),
+      process.env.CONVERSATION_STORE_SERVICE,
+      process.env.CONVERSATION_STORE_TABLE || 'df_chat_conversations'
+    );
+  }
+
+  return processSingleton<ConversationBackend>('conversationBackend', () =>
+    store === 'file'
+      ? new LazyFileConversationBackend(process.env.CONVERSATION_STORE_DIR)
+      : new MemoryConversationBackend()
+  );
+}
+
+// The conversations of one DreamFactory user
+export class ConversationStore {
+  // Conversations created here that haven't been saved yet
+  private unsaved = new WeakSet<Conversation>();
+
+  constructor(
+    private userId: string,
+    private backend: ConversationBackend = getConversationBackend()
+  ) {}
+
+  async get(id: string): Promise<Conversation | undefined> {
+    const conversation = await this.backend.get(this.userId, id);
+    if (conversation) ConversationStore.failInterruptedChanges(conversation);
+    return conversation;
+  }
+
+  // Not stored until it is first saved
+  create(): Conversation {
+    const now = new Date().toISOString();
+    const conversation: Conversation = {
+      id: crypto.randomUUID(),
+      userId: this.userId,
+      title: '',
+      messages: [],
+      transcript: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.unsaved.add(conversation);
+    return conversation;
+  }
+
+  async getOrCreate(id?: string): Promise<Conversation> {
+    return (id && await this.get(id)) || this.create();
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    conversation.updatedAt = new Date().toISOString();
+    await this.backend.put(conversation);
+    this.unsaved.delete(conversation);
+  }
+
+  // Saves the conversation unless another request saved it since it was
+  // loaded, or stored it first if it was created here. Returns false,
+  // without saving, if one did.
+  async saveIfUnchanged(conversation: Conversation): Promise<boolean> {
+    const loadedUpdatedAt = conversation.updatedAt;
+    conversation.updatedAt = new Date().toISOString();
+    if (conversation.updatedAt === loadedUpdatedAt) {
+      // Keep the version distinguishable within the same millisecond
+      conversation.updatedAt = new Date(Date.now() + 1).toISOString();
+    }
+
+    const saved = await this.backend.putIfUnchanged(
+      conversation,
+      this.unsaved.has(conversation) ? undefined : loadedUpdatedAt
+    );
+    if (saved) {
+      this.unsaved.delete(conversation);
+    } else {
+      conversation.updatedAt = loadedUpdatedAt;
+    }
+    return saved;
+  }
+
+  // Applies `update` to the conversation and saves it. When another request
+  // saved the conversation in between, `update` is applied again to a freshly
+  // loaded copy, so that neither request's changes are lost. `update` returns
+  // false to give up without saving. Returns the saved copy, or undefined if
+  // `update` gave up or the conversation was deleted meanwhile.
+  async saveUpdate(
+    conversation: Conversation,
+    update: (latest: Conversation) => boolean | void | Promise<boolean | void>
+  ): Promise<Conversation | undefined> {
+    let latest: Conversation | undefined = conversation;
+    for (let attempt = 1; latest; attempt++) {
+      if ((await update(latest)) === false) return undefined;
+      if (await this.saveIfUnchanged(latest)) return latest;
+      if (attempt >= MAX_SAVE_ATTEMPTS) {
+        throw new Error(`Conversation ${conversation.id} kept changing while it was being saved`);
+      }
+      latest = await this.get(conversation.id);
+    }
+    return undefined;
+  }
+
+  // Compacts the history of a saved conversation and stores the result.
+  // Summarizing is slow, so it runs once on a copy; the result is dropped if
+  // another turn changed the history meanwhile, and that turn compacts it.
+  async saveCompacted(
+    conversation: Conversation,
+    summarize: (messages: ChatMessage[], previousSummary?: string) => Promise<string>
+  ): Promise<void> {
+    if (historySize(conversation) <= MAX_HISTORY_CHARS) return;
+
+    const compacted = { ...conversation, messages: conversation.messages.map(msg => ({ ...msg })) };
+    await ConversationStore.compact(compacted, summarize);
+
+    const { summary, messages } = conversation;
+    await this.saveUpdate(conversation, latest => {
+      if (latest.summary !== summary || latest.messages.length !== messages.length) return false;
+      latest.summary = compacted.summary;
+      latest.messages = compacted.messages;
+    });
+  }
+
+  // Pinned conversations first, then the most recently updated
+  async list(search?: string): Promise<ConversationSummary[]> {
+    const summaries = await this.backend.list(this.userId, search);
+    return summaries.sort((a, b) => Number(b.pinned) - Number(a.pinned) || byRecency(a, b));
+  }
+
+  // Renames or pins a conversation without marking it as updated, so that
+  // it keeps its place in the list
+  async update(id: string, changes: { title?: string; pinned?: boolean }): Promise<ConversationSummary | undefined> {
+    const conversation = await this.get(id);
+    if (!conversation) return undefined;
+
+    if (changes.title !== undefined) conversation.title = changes.title.trim().slice(0, MAX_CUSTOM_TITLE_LENGTH) || conversation.title;
+    if (changes.pinned !== undefined) conversation.pinned = changes.pinned;
+    await this.backend.put(conversation);
+    return toSummary(conversation);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.backend.delete(this.userId, id);
+  }
+
+  // The first question, shortened at a word boundary
+  static titleFrom(question: string): string {
+    const text = question.replace(/\s+/g, ' ').trim();
+    if (text.length <= MAX_TITLE_LENGTH) return text;
+
+    const cut = text.slice(0, MAX_TITLE_LENGTH);
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}…`;
+  }
+
+  // Marks changes whose apply never finished as failed, so that the user can
+  // check the records and approve them again
+  static failInterruptedChanges(conversation: Conversation, now: number = Date.now()): void {
+    for (const change of conversation.changes || []) {
+      if (change.status !== 'applying' || now - Date.parse(change.applyingSince || '') < APPLYING_TIMEOUT_MS) continue;
+      change.status = 'failed';
+      change.error = 'Applying the change did not finish, so it may or may not have been written. Check the records before approving it again.';
+      ConversationStore.recordChangeDecision(conversation, change);
+    }
+  }
+
+  // Records the decision on a proposed change in the transcript, so that a
+  // reopened conversation shows it. The step that applied it adds its table
+  // to the answer's resources.
+  static recordChangeDecision(conversation: Conversation, change: RecordChange, step?: TraceStep): void {
+    for (const entry of conversation.transcript) {
+      if (!entry.changes?.some(item => item.id === change.id)) continue;
+      entry.changes = entry.changes.map(item => (item.id === change.id ? change : item));
+      if (step) {
+        entry.trace = [...(entry.trace || []), step];
+        entry.resources = Array.from(new Set([...(entry.resources || []), `${change.serviceName}/${change.tableName}`])).sort();
+      }
+    }
+  }
+
+  // Messages to replay ahead of the new user turn, with any summary of
+  // compacted turns presented as an extra system message
+  static toHistory(conversation: Conversation): ChatMessage[] {
+    const history: ChatMessage[] = [];
+    if (conversation.summary) {
+      history.push({
+        role: 'system',
+        content: `Summary of the earlier conversation with this user:\n${conversation.summary}`,
+      });
+    }
+    return history.concat(conversation.messages);
+  }
+
+  // Keeps the replayed history under the budget. The oldest turns are
+  // summarized first, then tool results in the recent turns are shortened,
+  // then everything before the latest turn is summarized. Turns are only cut
+  // at user message boundaries so that tool calls are never separated from
+  // their results.
+  static async compact(
+    conversation: Conversation,
+    summarize: (messages: ChatMessage[], previousSummary?: string) => Promise<string>
+  ): Promise<void> {
+    if (historySize(conversation) <= MAX_HISTORY_CHARS) return;
+
+    await ConversationStore.summarizeTurns(conversation, KEEP_RECENT_TURNS, summarize);
+    if (historySize(conversation) <= MAX_HISTORY_CHARS) return;
+
+    ConversationStore.shortenToolResults(conversation);
+    if (historySize(conversation) <= MAX_HISTORY_CHARS) return;
+
+    await ConversationStore.summarizeTurns(conversation, 1, summarize);
+
+    // A single turn can still be too large, e.g. a very long question;
+    // every message then gets an equal share of the budget
+    if (historySize(conversation) > MAX_HISTORY_CHARS) {
+      const share = Math.floor((MAX_HISTORY_CHARS - (conversation.summary?.length || 0)) / conversation.messages.length);
+      for (const msg of conversation.messages) msg.content = shorten(msg.content, Math.max(share, 0));
+    }
+  }
+
+  // Replaces all but the `keep` most recent user turns with a summary
+  private static async summarizeTurns(
+    conversation: Conversation,
+    keep: number,
+    summarize: (messages: ChatMessage[], previousSummary?: string) => Promise<string>
+  ): Promise<void> {
+    const userTurns = conversation.messages
+      .map((msg, index) => (msg.role === 'user' ? index : -1))
+      .filter(index => index >= 0);
+    if (userTurns.length <= keep) return;
+
+    const cutoff = userTurns[userTurns.length - keep];
+    const older = conversation.messages.slice(0, cutoff);
+
+    try {
+      conversation.summary = await summarize(older, conversation.summary);
+    } catch (error) {
+      // Fall back to plain trimming if the summary request fails
+      console.error('Failed to summarize conversation:', error);
+    }
+    conversation.messages = conversation.messages.slice(cutoff);
+  }
+
+  // Shortens replayed tool results, oldest first, until the history fits
+  private static shortenToolResults(conversation: Conversation): void {
+    for (const msg of conversation.messages) {
+      if (historySize(conversation) <= MAX_HISTORY_CHARS) return;
+      if (msg.role === 'tool') msg.content = shorten(msg.content, MAX_REPLAYED_TOOL_CHARS);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { cookies } from 'next/headers';
+
+export class MissingApiKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+// Resolves the DreamFactory app API key for the current request. In order:
+//   1. the configured app selected through /api/init (df_app cookie)
+//   2. an API key entered through /api/init (df_api_key cookie)
+//   3. DREAMFACTORY_API_KEY
+//   4. the only app in DREAMFACTORY_APPS, a JSON object of app name to key
+export class CredentialResolver {
+  static readonly API_KEY_COOKIE = 'df_api_key';
+  static readonly APP_COOKIE = 'df_app';
+  // Until login; afterwards the cookies are renewed with the session cookie
+  static readonly SELECTION_MAX_AGE = 60 * 60;
+
+  static cookieOptions(maxAge: number) {
+    return {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax' as const,
+      maxAge,
+    };
+  }
+
+  // Keeps the selected app or key for as long as the session that uses it
+  static renewCookies(maxAge: number): void {
+    const cookieStore = cookies();
+    for (const name of [CredentialResolver.APP_COOKIE, CredentialResolver.API_KEY_COOKIE]) {
+      const value = cookieStore.get(name)?.value;
+      if (value) cookieStore.set(name, value, CredentialResolver.cookieOptions(maxAge));
+    }
+  }
+
+  // The configured app selected for this browser, if any
+  static getSelectedApp(): string | undefined {
+    return cookies().get(CredentialResolver.APP_COOKIE)?.value;
+  }
+
+  // Whether a key can be resolved without asking the user
+  static hasApiKey(): boolean {
+    try {
+      CredentialResolver.getApiKey();
+      return true;
+    } catch (error) {
+      if (error instanceof MissingApiKeyError) return false;
+      throw error;
+    }
+  }
+
+  static getConfiguredApps(): Record<string, string> {
+    const apps = process.env.DREAMFACTORY_APPS;
+    if (!apps) return {};
+
+    try {
+      return JSON.parse(apps);
+    } catch (error) {
+      throw new MissingApiKeyError('DREAMFACTORY_APPS must be a JSON object mapping app names to API keys');
+    }
+  }
+
+  // Only the configured apps' own keys, so that a cookie such as
+  // "constructor" can't pick up an inherited property
+  static getAppKey(app: string): string {
+    const apps = CredentialResolver.getConfiguredApps();
+    const apiKey = Object.hasOwn(apps, app) ? apps[app] : undefined;
+    if (typeof apiKey !== 'string' || !apiKey) {
+      throw new MissingApiKeyError(`No API key is configured for the DreamFactory app "${app}"`);
+    }
+    return apiKey;
+  }
+
+  static getApiKey(): string {
+    const cookieStore = cookies();
+
+    const app = cookieStore.get(CredentialResolver.APP_COOKIE)?.value;
+    if (app) return CredentialResolver.getAppKey(app);
+
+    const cookieKey = cookieStore.get(CredentialResolver.API_KEY_COOKIE)?.value;
+    if (cookieKey) return cookieKey;
+
+    if (process.env.DREAMFACTORY_API_KEY) return process.env.DREAMFACTORY_API_KEY;
+
+    const configuredKeys = Object.values(CredentialResolver.getConfiguredApps());
+    if (configuredKeys.length === 1) return configuredKeys[0];
+
+    throw new MissingApiKeyError(
+      configuredKeys.length > 1
+        ? 'Several DreamFactory apps are configured; select one through /api/init before continuing'
+        : 'No DreamFactory API key is configured. Set DREAMFACTORY_API_KEY or DREAMFACTORY_APPS, or provide a key through /api/init'
+    );
+  }
+}
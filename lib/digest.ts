@@ -0,0 +1,152 @@
+import { DreamFactoryTool, isUnavailableResource } from './dreamfactory';
+import { SchemaCache } from './cache';
+import { mapWithConcurrency } from './utils';
+
+// Rough character budget for the digest (~4 characters per token)
+const DEFAULT_DIGEST_MAX_CHARS = 6000;
+// Tables whose schemas are fetched for the digest; later tables are only named
+const MAX_DIGEST_TABLES = 60;
+// Columns listed per table, keys first
+const MAX_DIGEST_COLUMNS = 12;
+const SCHEMA_FETCH_CONCURRENCY = 4;
+
+const SHORT_TYPES: Record<string, string> = {
+  integer: 'int',
+  bigint: 'int',
+  smallint: 'int',
+  id: 'int',
+  string: 'str',
+  text: 'text',
+  boolean: 'bool',
+  decimal: 'num',
+  double: 'num',
+  float: 'num',
+  money: 'num',
+  date: 'date',
+  datetime: 'datetime',
+  timestamp: 'datetime',
+  time: 'time',
+};
+
+// One line per table, e.g.
+//   employees: emp_no int PK, first_name str, hire_date date (+2 more) | FK dept_no→departments.dept_no | rel: salaries_by_emp_no
+function describeTable(tableName: string, schema: any): string {
+  const fields: any[] = schema.field || schema.fields || [];
+  const primaryKey: string[] = Array.isArray(schema.primary_key)
+    ? schema.primary_key
+    : schema.primary_key
+      ? [schema.primary_key]
+      : fields.filter(field => field.is_primary_key).map(field => field.name);
+
+  const isKey = (field: any) => primaryKey.includes(field.name) || field.is_foreign_key;
+  const ordered = [...fields.filter(isKey), ...fields.filter(field => !isKey(field))];
+  const columns = ordered.slice(0, MAX_DIGEST_COLUMNS).map(field => {
+    const type = SHORT_TYPES[field.type] || field.type || '?';
+    return `${field.name} ${type}${primaryKey.includes(field.name) ? ' PK' : ''}`;
+  });
+  if (ordered.length > MAX_DIGEST_COLUMNS) {
+    columns.push(`(+${ordered.length - MAX_DIGEST_COLUMNS} more)`);
+  }
+
+  const parts = [`${tableName}: ${columns.join(', ')}`];
+
+  const foreignKeys = fields
+    .filter(field => field.is_foreign_key && field.ref_table)
+    .map(field => `${field.name}→${field.ref_table}.${field.ref_field}`);
+  if (foreignKeys.length > 0) parts.push(`FK ${foreignKeys.join(', ')}`);
+
+  const related = (schema.related || [])
+    .map((relation: any) => (typeof relation === 'string' ? relation : relation.name))
+    .filter(Boolean);
+  if (related.length > 0) parts.push(`rel: ${related.join(', ')}`);
+
+  return parts.join(' | ');
+}
+
+// Builds a compact summary of the services, tables, key columns and
+// relationships the session's role can see, so that the model can often skip
+// schema discovery. Cached alongside the schemas it is built from.
+export class SchemaDigest {
+  static readonly CACHE_KEY = SchemaCache.DIGEST_KEY;
+
+  static async get(
+    dreamFactoryTool: DreamFactoryTool,
+    schemaCache?: SchemaCache,
+    maxChars: number = DEFAULT_DIGEST_MAX_CHARS
+  ): Promise<string> {
+    const cacheKey = `${SchemaDigest.CACHE_KEY}/${maxChars}`;
+    const cached = await schemaCache?.get<string>(cacheKey);
+    if (cached !== undefined) return cached;
+
+    const digest = await SchemaDigest.build(dreamFactoryTool, maxChars);
+    await schemaCache?.set(cacheKey, digest);
+    return digest;
+  }
+
+  static async build(dreamFactoryTool: DreamFactoryTool, maxChars: number = DEFAULT_DIGEST_MAX_CHARS): Promise<string> {
+    const services = await dreamFactoryTool.listServices();
+
+    const serviceTables = await Promise.all(
+      services.map(async service => {
+        try {
+          return { service, tables: await dreamFactoryTool.listTables(service.name) };
+        } catch (error) {
+          if (!isUnavailableResource(error)) throw error;
+          return { service, tables: [] as string[] };
+        }
+      })
+    );
+
+    const described = serviceTables
+      .flatMap(({ service, tables }) => tables.map(table => ({ serviceName: service.name, table })))
+      .slice(0, MAX_DIGEST_TABLES);
+
+    const lines = await mapWithConcurrency(described, SCHEMA_FETCH_CONCURRENCY, async ({ serviceName, table }) => {
+      try {
+        return describeTable(table, await dreamFactoryTool.getTableSchema(serviceName, table));
+      } catch (error) {
+        if (!isUnavailableResource(error)) throw error;
+        return null;
+      }
+    });
+    const lineByTable = new Map(described.map((item, index) => [`${item.serviceName}/${item.table}`, lines[index]]));
+
+    const output: string[] = [];
+    let size = 0;
+    const append = (line: string): boolean => {
+      if (size + line.length + 1 > maxChars) return false;
+      output.push(line);
+      size += line.length + 1;
+      return true;
+    };
+
+    const otherServices: string[] = [];
+    for (const { service, tables } of serviceTables) {
+      if (tables.length === 0) {
+        otherServices.push(service.name);
+        continue;
+      }
+      if (!append(`Service ${service.name} (${service.type}), ${tables.length} tables:`)) break;
+
+      // Once the budget runs out, later tables are only named
+      const omitted: string[] = [];
+      let isFull = false;
+      for (const table of tables) {
+        const line = lineByTable.get(`${service.name}/${table}`);
+        if (!isFull && line && append(`  ${line}`)) continue;
+        if (line) isFull = true;
+        omitted.push(table);
+      }
+      if (omitted.length > 0) {
+        append(`  Not described (use getTableSchema): ${omitted.join(', ')}`) ||
+          append(`  ${omitted.length} more tables not described (use listTables)`);
+      }
+    }
+
+    if (otherServices.length > 0) {
+      append(`Other services without tables: ${otherServices.join(', ')}`);
+    }
+
+    return output.join('\n');
+  }
+}
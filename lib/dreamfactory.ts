@@ -1,5 +1,11 @@
-import { DreamFactoryService, DreamFactorySchema, DreamFactoryQueryParams, DreamFactoryTableResponse, Employee, Department, DeptEmployee, DeptManager, Salary, Title } from './types';
-import { AuthService } from './auth';
+import { DreamFactoryService, DreamFactorySchema, DreamFactoryQueryParams, DreamFactoryTableResponse, DreamFactoryRequestLog, QueryResultPage, ExportQuery, AggregateMetric, AggregateParams, AggregateResult, ColumnMatch, EntitySearchResult, JoinPath, RecordChange, RecordChangeOperation, Employee, Department, DeptEmployee, DeptManager, Salary, Title } from './types';
+import { AuthService, SessionExpiredError } from './auth';
+import { CredentialResolver } from './credentials';
+import { FilterDialect, FilterNode, compileFilter, escapeLike, filterDialectFor } from './filters';
+import { SchemaCache } from './cache';
+import { RelationshipGraph, RelationshipGraphData } from './relationships';
+import { ColumnIndex, ColumnIndexData } from './columns';
+import { EntitySearch } from './entities';
 
 interface QueryParams {
   filter?: string;
@@ -9,6 +15,16 @@ interface QueryParams {
   fields?: string[];
   include_count?: boolean;
   include_schema?: boolean;
+  related?: string;
+  group?: string;
+}
+
+// Query parameters accepted from the model, with a structured filter
+type ModelQueryParams = Pick<QueryParams, 'order' | 'fields' | 'related'> & PageParams & { filter?: FilterNode };
+
+interface PageParams {
+  limit?: number;
+  offset?: number;
 }
 
 interface DreamFactoryResponse<T> {
@@ -19,20 +35,126 @@ interface DreamFactoryResponse<T> {
   };
 }
 
-const API_KEY = 'daf9692e1ec76c2623f3c1e5a951590a902931a2a8900d53520040fa04f8786c';
+// Page sizes for queries made on behalf of the model
+const DEFAULT_QUERY_LIMIT = 100;
+const MAX_QUERY_LIMIT = 1000;
+// Rough character budget for records returned to the model (~4 characters per token)
+const MAX_RESULT_CHARS = 16000;
+
+// Limits for exports, which fetch every matching row
+const EXPORT_PAGE_SIZE = 1000;
+const MAX_EXPORT_ROWS = 100000;
+
+// Limits for aggregations computed from fetched rows
+const AGGREGATE_PAGE_SIZE = 1000;
+const MAX_AGGREGATE_ROWS = 100000;
+const MAX_AGGREGATE_GROUPS = 200;
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+
+// The session's role may not access a service or table (HTTP 403)
+export class AccessDeniedError extends Error {
+  resource: string;
+
+  constructor(message: string, resource: string) {
+    super(message);
+    this.name = 'AccessDeniedError';
+    this.resource = resource;
+  }
+}
+
+// Any other failed DreamFactory request, with its HTTP status
+export class DreamFactoryRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'DreamFactoryRequestError';
+    this.status = status;
+  }
+}
+
+// Whether a schema read failed because the service or table isn't there for
+// the session: not a database service, denied to its role, or removed.
+// Summaries of a service leave those out, while an expired session or a
+// failing server must fail the summary rather than cache it incomplete.
+export function isUnavailableResource(error: unknown): boolean {
+  return error instanceof AccessDeniedError ||
+    (error instanceof DreamFactoryRequestError && (error.status === 400 || error.status === 404));
+}
+
+// The service accepted the aggregate query but ignored the aggregate fields
+class AggregateUnsupportedError extends Error {}
+
+// Maps a request path to the service ("db") or table ("db/employees") it touches
+function resourceKey(endpoint: string): string {
+  const [path] = endpoint.split('?');
+  const match = path.match(/^([^/]+)\/_(?:table|schema)\/([^/]+)/);
+  return match ? `${match[1]}/${decodeURIComponent(match[2])}` : path.split('/')[0];
+}
+
+interface MetricAccumulator {
+  count: number;
+  // Values counted towards sum and avg
+  numericCount: number;
+  sum: number;
+  min: number | string | null;
+  max: number | string | null;
+}
+
+function metricLabel(metric: AggregateMetric): string {
+  return `${metric.function}_${metric.field ? metric.field.replace(/\./g, '_') : 'all'}`;
+}
+
+// Orders numbers numerically and anything else (e.g. dates) as strings
+function compareValues(a: number | string, b: number | string): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+// Cuts the longest values of a record that alone is over `maxChars`, so
+// that even the first row of a page fits. Every field gets an equal share;
+// nested values such as related records are cut as JSON text.
+function shortenRecord<T>(row: T, maxChars: number): { record: T; fields: string[] } {
+  const entries = Object.entries(row as Record<string, any>);
+  const share = Math.floor(maxChars / Math.max(entries.length, 1));
+  const fields: string[] = [];
+
+  const record = Object.fromEntries(entries.map(([field, value]) => {
+    const text = typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+    if (text.length <= share) return [field, value];
+    fields.push(field);
+    const marker = `… [${text.length} characters, shortened]`;
+    return [field, share > marker.length ? text.slice(0, share - marker.length) + marker : text.slice(0, share)];
+  }));
+  return { record: record as T, fields };
+}
+
+function toComparable(value: any): number | string {
+  const numeric = typeof value === 'number' ? value : Number(value);
+  return value !== '' && !Number.isNaN(numeric) ? numeric : String(value);
+}
 
 export class DreamFactoryTool {
   private baseUrl: string;
-  private cachedSchema: Record<string, DreamFactorySchema> = {};
-  private cachedTableSchemas: Record<string, Record<string, any>> = {};
+  // Schemas by endpoint, for this instance; `schemaCache` shares them across requests
+  private cachedSchemas: Record<string, any> = {};
+  private schemaCache?: SchemaCache;
   private requestedEndpoints: string[] = [];
-
-  constructor(baseUrl: string) {
+  // Services and tables that answered 403, hidden from later listings
+  private deniedResources = new Set<string>();
+  // Endpoints that answered successfully or from the schema cache, shared
+  // with the views from withRequestLogger (see getReadResources)
+  private readEndpoints: string[] = [];
+  private requestLogger?: (request: DreamFactoryRequestLog) => void;
+  // A server-side app key used instead of the signed-in user's credentials
+  private serviceApiKey?: string;
+
+  constructor(baseUrl: string, schemaCache?: SchemaCache, serviceApiKey?: string) {
     this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.schemaCache = schemaCache;
+    this.serviceApiKey = serviceApiKey;
     this.requestedEndpoints = [];
-    console.log('DreamFactoryTool initialized with:', {
-      baseUrl: this.baseUrl,
-    });
   }
 
   getRequestedEndpoints(): string[] {
@@ -43,28 +165,42 @@ export class DreamFactoryTool {
     this.requestedEndpoints = [];
   }
 
+  // Returns a view of this tool that shares its caches and endpoint list but
+  // reports each completed request to `logger`, so that concurrent tool calls
+  // can be traced separately
+  withRequestLogger(logger: (request: DreamFactoryRequestLog) => void): DreamFactoryTool {
+    const scoped: DreamFactoryTool = Object.create(this);
+    scoped.requestLogger = logger;
+    return scoped;
+  }
+
   private async makeRequest<T = any>(endpoint: string, options: RequestInit = {}): Promise<T> {
     const cleanEndpoint = endpoint.replace(/^\/+/, '');
     const url = `${this.baseUrl}/api/v2/${cleanEndpoint}`;
     
     this.requestedEndpoints.push(`${this.baseUrl}/api/v2/${cleanEndpoint}`);
-    console.log('Making request to:', url);
     
-    const sessionToken = AuthService.getSessionToken();
-    if (!sessionToken) {
-      throw new Error('No active session found');
+    // With a service key, requests run as the key's app role rather than the user
+    const sessionToken = this.serviceApiKey ? undefined : AuthService.getSessionToken();
+    if (!this.serviceApiKey && !sessionToken) {
+      throw new SessionExpiredError();
     }
+    const apiKey = this.serviceApiKey || CredentialResolver.getApiKey();
+
+    const startedAt = Date.now();
+    let status: number | null = null;
 
     try {
       const response = await fetch(url, {
         ...options,
         headers: {
-          'X-DreamFactory-API-Key': API_KEY,
-          'X-DreamFactory-Session-Token': sessionToken,
+          'X-DreamFactory-API-Key': apiKey,
+          ...(sessionToken && { 'X-DreamFactory-Session-Token': sessionToken }),
           'Accept': 'application/json',
           ...options.headers,
         },
       });
+      status = response.status;
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => null);
@@ -74,97 +210,405 @@ export class DreamFactoryTool {
           error: errorData,
           url,
         });
-        throw new Error(
+        // DreamFactory answers 401 once the session token has expired or been revoked
+        if (response.status === 401 && !this.serviceApiKey) {
+          throw new SessionExpiredError();
+        }
+        if (response.status === 403) {
+          const resource = resourceKey(cleanEndpoint);
+          this.deniedResources.add(resource);
+          throw new AccessDeniedError(
+            errorData?.error?.message || `Access Forbidden to ${resource}`,
+            resource
+          );
+        }
+        throw new DreamFactoryRequestError(
           errorData?.error?.message || 
           errorData?.error || 
-          `Failed to fetch from DreamFactory: ${response.status} ${response.statusText}`
+          `Failed to fetch from DreamFactory: ${response.status} ${response.statusText}`,
+          response.status
         );
       }
 
-      const data = await response.json();
-      console.log('Response data:', data);
-      return data;
+      this.readEndpoints.push(cleanEndpoint);
+      return await response.json();
     } catch (error) {
       console.error('DreamFactory Request Failed:', {
         url,
         error,
       });
       throw error;
+    } finally {
+      this.requestLogger?.({
+        method: options.method || 'GET',
+        url,
+        status,
+        durationMs: Date.now() - startedAt,
+      });
     }
   }
 
+  // Lists the services the session's role can use. DreamFactory lists only
+  // the services the role's service access covers; tables are checked when
+  // a service's tables are listed, and a service that has answered 403 since
+  // is left out.
   async listServices(): Promise<DreamFactoryService[]> {
     const response = await this.makeRequest<{ services: DreamFactoryService[] }>('');
-    return response.services || [];
+    return (response.services || []).filter(service => this.isAccessible(service.name));
   }
 
-  async getServiceSchema(serviceName: string): Promise<DreamFactorySchema> {
-    if (!this.cachedSchema[serviceName]) {
-      console.log(`Fetching schema for service: ${serviceName}`);
-      this.cachedSchema[serviceName] = await this.makeRequest<DreamFactorySchema>(`${serviceName}/_schema`);
-      console.log('Service schema:', this.cachedSchema[serviceName]);
+  // Whether the role can use every service and read every table
+  // ("db/employees") listed. A record of each table is read, since a role
+  // may see a table in the schema without being allowed to read it. An
+  // empty list grants nothing, since nothing shows what it was read from.
+  async canAccess(resources: string[]): Promise<boolean> {
+    if (resources.length === 0) return false;
+
+    for (const resource of resources) {
+      const [serviceName, tableName] = resource.split('/');
+      try {
+        if (tableName) {
+          await this.queryTable(serviceName, tableName, { limit: 1 });
+        } else {
+          await this.listTables(serviceName);
+        }
+      } catch (error) {
+        if (isUnavailableResource(error)) return false;
+        throw error;
+      }
     }
-    return this.cachedSchema[serviceName];
+    return true;
+  }
+
+  // The services and tables ("db/employees") this tool has read records
+  // from so far, plus the tables whose records `related` pulled into its
+  // table queries. Reading a table's schema only counts as using its service.
+  async getReadResources(): Promise<string[]> {
+    const resources = new Set<string>();
+    const relatedQueries: { serviceName: string; tableName: string; related: string }[] = [];
+
+    for (const endpoint of Array.from(new Set(this.readEndpoints))) {
+      const [serviceName, tableName] = resourceKey(endpoint).split('/');
+      if (!serviceName) continue;
+      if (!tableName || !endpoint.includes('/_table/')) {
+        resources.add(serviceName);
+        continue;
+      }
+      resources.add(`${serviceName}/${tableName}`);
+
+      const related = new URLSearchParams(endpoint.split('?')[1] || '').get('related');
+      if (related) relatedQueries.push({ serviceName, tableName, related });
+    }
+
+    for (const { serviceName, tableName, related } of relatedQueries) {
+      for (const table of await this.getRelatedTables(serviceName, tableName, related)) {
+        resources.add(`${serviceName}/${table}`);
+      }
+    }
+    return Array.from(resources).sort();
+  }
+
+  isAccessible(serviceName: string, tableName?: string): boolean {
+    if (this.deniedResources.has(serviceName)) return false;
+    return !tableName || !this.deniedResources.has(`${serviceName}/${tableName}`);
+  }
+
+  // Table names from the service schema, or from the table list when the role
+  // may read tables but not the schema
+  private async getVisibleTables(serviceName: string): Promise<string[]> {
+    try {
+      const schema = await this.getServiceSchema(serviceName);
+      return (schema.resource || []).map(table => table.name);
+    } catch (error) {
+      if (!(error instanceof AccessDeniedError)) throw error;
+
+      const tables = await this.getSchema<DreamFactoryResponse<{ name: string }>>(`${encodeURIComponent(serviceName)}/_table`);
+      // The 403 for the schema must not hide a service whose tables are readable
+      this.deniedResources.delete(serviceName);
+      return (tables.resource || []).map(table => table.name);
+    }
+  }
+
+  // Fetches a schema endpoint unless this instance or the shared cache has
+  // it. Cache hits are logged like requests, flagged as cached, so that the
+  // trace shows where each schema came from. `load` builds data derived from
+  // schemas under a key of the same service.
+  private async getSchema<T = any>(
+    endpoint: string,
+    load: () => Promise<T> = () => this.makeRequest<T>(endpoint)
+  ): Promise<T> {
+    if (!this.cachedSchemas[endpoint]) {
+      const cached = await this.schemaCache?.get<T>(endpoint);
+      if (cached !== undefined) {
+        this.cachedSchemas[endpoint] = cached;
+      } else {
+        this.cachedSchemas[endpoint] = await load();
+        await this.schemaCache?.set(endpoint, this.cachedSchemas[endpoint]);
+        return this.cachedSchemas[endpoint];
+      }
+    }
+
+    this.readEndpoints.push(endpoint);
+    this.requestLogger?.({
+      method: 'GET',
+      url: `${this.baseUrl}/api/v2/${endpoint}`,
+      status: 200,
+      durationMs: 0,
+      cached: true,
+    });
+    return this.cachedSchemas[endpoint];
+  }
+
+  async getServiceSchema(serviceName: string): Promise<DreamFactorySchema> {
+    return this.getSchema<DreamFactorySchema>(`${encodeURIComponent(serviceName)}/_schema`);
   }
 
   async getTableSchema(serviceName: string, tableName: string): Promise<any> {
-    const cacheKey = `${serviceName}/${tableName}`;
-    if (!this.cachedTableSchemas[cacheKey]) {
-      console.log(`Fetching schema for table: ${tableName}`);
-      this.cachedTableSchemas[cacheKey] = await this.makeRequest(`${serviceName}/_schema/${tableName}`);
-      console.log('Table schema:', this.cachedTableSchemas[cacheKey]);
+    const table = await this.resolveTable(serviceName, tableName);
+    return this.getSchema(`${encodeURIComponent(serviceName)}/_schema/${encodeURIComponent(table)}`);
+  }
+
+  // The table's name as the service spells it. Names from the model or a
+  // request body are checked against the schema before they go into a URL.
+  private async resolveTable(serviceName: string, tableName: string): Promise<string> {
+    const tables = await this.getVisibleTables(serviceName);
+    const table = tables.find(name => name === tableName) ||
+      tables.find(name => name.toLowerCase() === String(tableName).toLowerCase());
+    if (!table) {
+      throw new DreamFactoryRequestError(
+        `Unknown table ${JSON.stringify(tableName)} in service ${serviceName}. Use listTables to find the table names.`,
+        404
+      );
     }
-    return this.cachedTableSchemas[cacheKey];
+    return table;
+  }
+
+  private async tablePath(serviceName: string, tableName: string): Promise<string> {
+    const table = await this.resolveTable(serviceName, tableName);
+    return `${encodeURIComponent(serviceName)}/_table/${encodeURIComponent(table)}`;
+  }
+
+  private async getRelationshipGraph(serviceName: string): Promise<RelationshipGraph> {
+    const graph = await this.getSchema<RelationshipGraphData>(
+      `${encodeURIComponent(serviceName)}/_relationships`,
+      () => RelationshipGraph.collect(this, serviceName)
+    );
+    return new RelationshipGraph(graph);
+  }
+
+  // Finds the chain of relationship names that joins two tables of a service
+  async findJoinPath(serviceName: string, fromTable: string, toTable: string): Promise<JoinPath> {
+    return (await this.getRelationshipGraph(serviceName)).findPath(fromTable, toTable);
+  }
+
+  // The other tables a query of the table reads records from when it passes
+  // `related` (relationship names separated by commas, or *)
+  async getRelatedTables(serviceName: string, tableName: string, related: string): Promise<string[]> {
+    const graph = await this.getRelationshipGraph(serviceName);
+    if (!graph.isUnread(tableName)) return graph.relatedTables(tableName, related);
+
+    // The graph stops short of the table, so read its own relationships
+    const schema = await this.getTableSchema(serviceName, tableName);
+    return RelationshipGraph.fromTableSchema(tableName, schema).relatedTables(tableName, related);
+  }
+
+  // Forgets cached schemas of one service, or of every service, here and in
+  // the shared cache
+  async invalidateSchema(serviceName?: string): Promise<void> {
+    const prefix = serviceName && encodeURIComponent(serviceName);
+    for (const endpoint of Object.keys(this.cachedSchemas)) {
+      if (!prefix || endpoint.split('/')[0] === prefix) {
+        delete this.cachedSchemas[endpoint];
+      }
+    }
+    await this.schemaCache?.invalidate(serviceName);
   }
 
   async listTables(serviceName: string): Promise<string[]> {
-    const schema = await this.getServiceSchema(serviceName);
-    if (!schema.resource) return [];
-    return schema.resource
-      .filter(table => !table.name.startsWith('_'))
-      .map(table => table.name);
+    const tables = await this.getVisibleTables(serviceName);
+    return tables.filter(table => !table.startsWith('_') && this.isAccessible(serviceName, table));
   }
 
-  async findTableWithField(serviceName: string, fieldName: string): Promise<string | null> {
-    const tables = await this.listTables(serviceName);
-    
-    for (const tableName of tables) {
-      const schema = await this.getTableSchema(serviceName, tableName);
-      if (schema.field?.some((field: any) => field.name.toLowerCase() === fieldName.toLowerCase())) {
-        return tableName;
+  async getFieldNames(serviceName: string, tableName: string): Promise<string[]> {
+    const schema = await this.getTableSchema(serviceName, tableName);
+    return (schema.field || schema.fields || []).map((field: any) => field.name);
+  }
+
+  // How the service's database escapes filter values, from its service type.
+  // The service list is cached like a schema.
+  async getFilterDialect(serviceName: string): Promise<FilterDialect> {
+    const { services } = await this.getSchema<{ services: DreamFactoryService[] }>('');
+    const service = (services || []).find(item => item.name.toLowerCase() === serviceName.toLowerCase());
+    return filterDialectFor(service?.type);
+  }
+
+  // Compiles a structured filter for the service's database, without
+  // checking field names
+  async compileServiceFilter(serviceName: string, filter: FilterNode): Promise<string> {
+    return compileFilter(filter, undefined, await this.getFilterDialect(serviceName));
+  }
+
+  // Compiles a structured filter, checking its field names against the
+  // table schema
+  async buildFilter(serviceName: string, tableName: string, filter: FilterNode): Promise<string> {
+    const [fieldNames, dialect] = await Promise.all([
+      this.getFieldNames(serviceName, tableName),
+      this.getFilterDialect(serviceName),
+    ]);
+    return compileFilter(filter, fieldNames, dialect);
+  }
+
+  async getPrimaryKey(serviceName: string, tableName: string): Promise<string[]> {
+    const schema = await this.getTableSchema(serviceName, tableName);
+    if (Array.isArray(schema.primary_key)) return schema.primary_key;
+    if (typeof schema.primary_key === 'string') return [schema.primary_key];
+    return (schema.field || schema.fields || [])
+      .filter((field: any) => field.is_primary_key)
+      .map((field: any) => field.name);
+  }
+
+  // Paging by offset needs a total order, or rows can repeat or go missing
+  // between pages. The primary key breaks ties in the requested order, or is
+  // the order when none was requested.
+  private async pagingOrder(serviceName: string, tableName: string, order?: string): Promise<string | undefined> {
+    const ordered = new Set(
+      (order || '').split(',').map(part => part.trim().split(/\s+/)[0].toLowerCase()).filter(Boolean)
+    );
+    const tiebreakers = (await this.getPrimaryKey(serviceName, tableName))
+      .filter(field => !ordered.has(field.toLowerCase()))
+      .map(field => `${field} ASC`);
+    return [order, ...tiebreakers].filter(Boolean).join(', ') || undefined;
+  }
+
+  // Drafts a create, update or delete for the user to confirm. Nothing is
+  // written here; the current state of affected records is fetched so that
+  // the change can be shown as a diff.
+  async prepareChange(
+    serviceName: string,
+    tableName: string,
+    operation: RecordChangeOperation,
+    records: Record<string, any>[],
+    summary: string
+  ): Promise<RecordChange> {
+    if (!['create', 'update', 'delete'].includes(operation)) {
+      throw new Error(`Unknown operation: ${operation}`);
+    }
+    if (!Array.isArray(records) || records.length === 0) {
+      throw new Error('At least one record is required');
+    }
+
+    const keyFields = await this.getPrimaryKey(serviceName, tableName);
+    let before: Record<string, any>[] | undefined;
+
+    if (operation !== 'create') {
+      if (keyFields.length === 0) {
+        throw new Error(`Table ${tableName} has no primary key, so records cannot be identified for ${operation}`);
+      }
+      for (const record of records) {
+        const missing = keyFields.filter(field => record[field] === undefined);
+        if (missing.length > 0) {
+          throw new Error(`Each record must include its primary key (${missing.join(', ')})`);
+        }
+      }
+
+      const filter = await this.buildFilter(serviceName, tableName, {
+        op: 'or',
+        conditions: records.map(record => ({
+          op: 'and' as const,
+          conditions: keyFields.map(field => ({ op: 'eq' as const, field, value: record[field] })),
+        })),
+      });
+      const response = await this.queryTable(serviceName, tableName, { filter, limit: records.length });
+      before = response.resource || [];
+
+      if (before.length === 0) {
+        throw new Error(`No matching records found in ${tableName} to ${operation}`);
       }
     }
-    return null;
+
+    return {
+      id: crypto.randomUUID(),
+      serviceName,
+      tableName,
+      operation,
+      keyFields,
+      records,
+      before,
+      summary,
+      status: 'pending',
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  // Executes a change the user has approved
+  async applyChange(change: RecordChange): Promise<DreamFactoryResponse<any>> {
+    const resource = change.operation === 'delete'
+      ? change.records.map(record => Object.fromEntries(change.keyFields.map(field => [field, record[field]])))
+      : change.records;
+
+    return this.writeRecords(change.serviceName, change.tableName, change.operation, resource);
+  }
+
+  // Creates, updates or deletes records identified by their primary keys
+  async writeRecords(
+    serviceName: string,
+    tableName: string,
+    operation: RecordChangeOperation,
+    resource: Record<string, any>[]
+  ): Promise<DreamFactoryResponse<any>> {
+    const method = { create: 'POST', update: 'PATCH', delete: 'DELETE' }[operation];
+
+    return this.makeRequest(await this.tablePath(serviceName, tableName), {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ resource }),
+    });
+  }
+
+  // Updates the records matching a filter, returning those that were changed
+  async updateRecordsWhere(
+    serviceName: string,
+    tableName: string,
+    filter: string,
+    fields: Record<string, any>
+  ): Promise<DreamFactoryResponse<any>> {
+    return this.makeRequest(`${await this.tablePath(serviceName, tableName)}?filter=${encodeURIComponent(filter)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(fields),
+    });
+  }
+
+  // Index of every column of a service, cached with its schemas
+  async getColumnIndex(serviceName: string): Promise<ColumnIndex> {
+    const data = await this.getSchema<ColumnIndexData>(
+      `${encodeURIComponent(serviceName)}/_columns`,
+      () => ColumnIndex.collect(this, serviceName)
+    );
+    return new ColumnIndex(data);
+  }
+
+  async findTableWithField(serviceName: string, fieldName: string): Promise<string | null> {
+    const [match] = (await this.getColumnIndex(serviceName)).findExact(fieldName);
+    return match?.table ?? null;
+  }
+
+  // Finds columns by approximate name or label, e.g. "surname" -> last_name
+  async findColumns(serviceName: string, query: string, type?: string, limit?: number): Promise<ColumnMatch[]> {
+    return (await this.getColumnIndex(serviceName)).search(query, type, limit);
   }
 
   async queryTable<T = any>(
     serviceName: string,
     tableName: string,
-    params: {
-      filter?: string;
-      limit?: number;
-      offset?: number;
-      order?: string;
-      fields?: string[];
-      include_count?: boolean;
-      include_schema?: boolean;
-      related?: string;
-    } = {}
+    params: QueryParams = {}
   ): Promise<DreamFactoryResponse<T>> {
     const queryParams = new URLSearchParams();
 
     if (params.filter) {
-      let formattedFilter = params.filter
-        .replace(/\s*=\s*/g, '=')
-        .replace(/\(\s+/g, '(')
-        .replace(/\s+\)/g, ')')
-        .replace(/\s+and\s+/gi, ' and ');
-
-      if (!formattedFilter.startsWith('(')) {
-        formattedFilter = `(${formattedFilter})`;
-      }
-
-      queryParams.set('filter', formattedFilter);
+      // Filters are passed through untouched so that quoted values keep
+      // their exact spacing and case
+      queryParams.set('filter', params.filter.startsWith('(') ? params.filter : `(${params.filter})`);
     }
 
     if (params.limit) queryParams.set('limit', params.limit.toString());
@@ -174,59 +618,364 @@ export class DreamFactoryTool {
     if (params.include_count) queryParams.set('include_count', 'true');
     if (params.include_schema) queryParams.set('include_schema', 'true');
     if (params.related) queryParams.set('related', params.related);
+    if (params.group) queryParams.set('group', params.group);
 
-    const endpoint = `${serviceName}/_table/${tableName}${
+    const endpoint = `${await this.tablePath(serviceName, tableName)}${
       queryParams.toString() ? `?${queryParams.toString()}` : ''
     }`;
 
     return this.makeRequest<DreamFactoryResponse<T>>(endpoint);
   }
 
-  async searchTableByField(
+  // Applies the default and maximum page size used for model-facing queries
+  static normalizePage(page: PageParams = {}): Required<PageParams> {
+    return {
+      limit: Math.min(Math.max(Math.floor(page.limit || DEFAULT_QUERY_LIMIT), 1), MAX_QUERY_LIMIT),
+      offset: Math.max(Math.floor(page.offset || 0), 0),
+    };
+  }
+
+  // Compacts a record set for the model: the records that fit the character
+  // budget, the column names, the total row count and how to fetch the rest
+  static toResultPage<T = any>(response: DreamFactoryResponse<T>, page: Required<PageParams>): QueryResultPage<T> {
+    const rows = response.resource || [];
+    const total = response.meta?.count;
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row as object))));
+
+    const records: T[] = [];
+    let shortenedFields: string[] = [];
+    let size = 0;
+    for (const row of rows) {
+      size += JSON.stringify(row).length;
+      if (size > MAX_RESULT_CHARS) {
+        if (records.length > 0) break;
+        // A single row over the budget is returned with its values cut
+        const { record, fields } = shortenRecord(row, MAX_RESULT_CHARS);
+        records.push(record);
+        shortenedFields = fields;
+        size = JSON.stringify(record).length;
+        continue;
+      }
+      records.push(row);
+    }
+
+    const truncated = records.length < rows.length;
+    const end = page.offset + records.length;
+    const hasMore = truncated || (total !== undefined ? end < total : rows.length === page.limit);
+    const nextOffset = hasMore ? end : undefined;
+
+    let note = records.length === 0
+      ? `No rows found${page.offset > 0 ? ` at offset ${page.offset}` : ''}.`
+      : `Showing rows ${page.offset + 1}-${end}${total !== undefined ? ` of ${total}` : ''}.`;
+    if (truncated) {
+      note += ` The page was cut to ${records.length} of ${rows.length} rows to fit the response size; request fewer fields or a smaller limit for complete pages.`;
+    }
+    if (shortenedFields.length > 0) {
+      note += ` Row ${page.offset + 1} is too large to return whole, so its ${shortenedFields.join(', ')} ${shortenedFields.length === 1 ? 'value was' : 'values were'} shortened; request fewer fields to see them in full.`;
+    }
+    if (nextOffset !== undefined) {
+      note += ` Call again with offset=${nextOffset} for more rows, or narrow the filter.`;
+    }
+
+    return {
+      total,
+      offset: page.offset,
+      limit: page.limit,
+      returned: records.length,
+      columns,
+      records,
+      truncated,
+      nextOffset,
+      note,
+    };
+  }
+
+  // Computes count/sum/avg/min/max, optionally grouped, using DreamFactory's
+  // group support when the service accepts aggregate fields, and otherwise by
+  // paging through the matching rows and aggregating them here. Paging stops
+  // at `deadline` (a Date.now() timestamp) with a partial result.
+  async aggregateTable(
     serviceName: string,
     tableName: string,
-    fieldName: string,
-    value: string | number,
-    exact: boolean = true,
-    related?: string
-  ): Promise<DreamFactoryResponse<any>> {
-    const filter = exact
-      ? `(${fieldName}=${typeof value === 'string' ? `'${value}'` : value})`
-      : `(${fieldName} like '${value}%')`;
+    params: AggregateParams,
+    deadline?: number
+  ): Promise<AggregateResult> {
+    const groupBy = params.groupBy || [];
+    const metrics = params.metrics?.length ? params.metrics : [{ function: 'count' as const }];
+
+    for (const field of [...groupBy, ...metrics.map(metric => metric.field).filter(Boolean)]) {
+      if (!IDENTIFIER_PATTERN.test(field as string)) {
+        throw new Error(`Invalid field name for aggregation: ${field}`);
+      }
+    }
+    for (const metric of metrics) {
+      if (metric.function !== 'count' && !metric.field) {
+        throw new Error(`A field is required for ${metric.function}`);
+      }
+    }
 
-    return this.queryTable(serviceName, tableName, {
+    const filter = params.filter && await this.buildFilter(serviceName, tableName, params.filter);
+
+    try {
+      return await this.aggregateOnServer(serviceName, tableName, metrics, groupBy, filter);
+    } catch (error) {
+      // Only fall back when the service rejects or ignores the aggregate
+      // syntax; expired sessions, permission errors and outages are reported
+      const unsupported = error instanceof AggregateUnsupportedError ||
+        (error instanceof DreamFactoryRequestError && error.status === 400);
+      if (!unsupported) throw error;
+
+      // The result's method and note say that fetched rows were aggregated
+      return this.aggregateOnClient(serviceName, tableName, metrics, groupBy, filter, deadline);
+    }
+  }
+
+  private async aggregateOnServer(
+    serviceName: string,
+    tableName: string,
+    metrics: AggregateMetric[],
+    groupBy: string[],
+    filter?: string
+  ): Promise<AggregateResult> {
+    const response = await this.queryTable(serviceName, tableName, {
       filter,
-      related,
-      include_schema: true,
+      fields: [
+        ...groupBy,
+        ...metrics.map(metric => `${metric.function.toUpperCase()}(${metric.field || '*'}) AS ${metricLabel(metric)}`),
+      ],
+      group: groupBy.length > 0 ? groupBy.join(',') : undefined,
+      limit: MAX_AGGREGATE_GROUPS + 1,
     });
+
+    const rows = response.resource || [];
+    // Services that ignore aggregate fields return plain rows instead
+    const labels = metrics.map(metricLabel);
+    if (rows.length === 0 || !rows.every(row => labels.every(label => label in row))) {
+      throw new AggregateUnsupportedError('Aggregate fields are not supported by this service');
+    }
+
+    const groups = rows.slice(0, MAX_AGGREGATE_GROUPS).map(row => ({
+      group: Object.fromEntries(groupBy.map(field => [field, row[field]])),
+      values: Object.fromEntries(labels.map(label => [label, row[label] === null ? null : toComparable(row[label])])),
+    }));
+
+    return {
+      method: 'server',
+      groups,
+      note: this.aggregateNote(groups.length, rows.length > MAX_AGGREGATE_GROUPS),
+    };
   }
 
-  async searchByName(
+  private async aggregateOnClient(
     serviceName: string,
     tableName: string,
-    name: string,
-    firstNameField: string = 'first_name',
-    lastNameField: string = 'last_name',
-    related?: string
-  ): Promise<DreamFactoryResponse<any>> {
-    const nameParts = name.split(' ');
-    let filter: string;
-
-    if (nameParts.length > 1) {
-      // If name has multiple parts, search both first and last name
-      filter = `(${firstNameField} like '${nameParts[0]}%') and (${lastNameField} like '${nameParts[1]}%')`;
-    } else {
-      // If single name part, search in both fields
-      filter = `(${firstNameField} like '${name}%') or (${lastNameField} like '${name}%')`;
+    metrics: AggregateMetric[],
+    groupBy: string[],
+    filter?: string,
+    deadline?: number
+  ): Promise<AggregateResult> {
+    const fields = Array.from(new Set([...groupBy, ...metrics.map(metric => metric.field).filter(Boolean) as string[]]));
+    const groups = new Map<string, { group: Record<string, any>; accumulators: MetricAccumulator[] }>();
+    const order = await this.pagingOrder(serviceName, tableName);
+    let offset = 0;
+    let total: number | undefined;
+    let outOfTime = false;
+
+    while (offset < MAX_AGGREGATE_ROWS) {
+      const response = await this.queryTable(serviceName, tableName, {
+        filter,
+        fields: fields.length > 0 ? fields : undefined,
+        order,
+        limit: AGGREGATE_PAGE_SIZE,
+        offset,
+        include_count: offset === 0,
+      });
+      const rows = response.resource || [];
+      if (offset === 0) total = response.meta?.count;
+
+      for (const row of rows) {
+        const key = JSON.stringify(groupBy.map(field => row[field]));
+        let entry = groups.get(key);
+        if (!entry) {
+          entry = {
+            group: Object.fromEntries(groupBy.map(field => [field, row[field]])),
+            accumulators: metrics.map(() => ({ count: 0, numericCount: 0, sum: 0, min: null, max: null })),
+          };
+          groups.set(key, entry);
+        }
+
+        metrics.forEach((metric, index) => {
+          const accumulator = entry!.accumulators[index];
+          if (!metric.field) {
+            accumulator.count++;
+            return;
+          }
+
+          const value = row[metric.field];
+          if (value === null || value === undefined) return;
+
+          const comparable = toComparable(value);
+          accumulator.count++;
+          if (typeof comparable === 'number') {
+            accumulator.sum += comparable;
+            accumulator.numericCount++;
+          }
+          if (accumulator.min === null || compareValues(comparable, accumulator.min) < 0) accumulator.min = comparable;
+          if (accumulator.max === null || compareValues(comparable, accumulator.max) > 0) accumulator.max = comparable;
+        });
+      }
+
+      offset += rows.length;
+      if (rows.length < AGGREGATE_PAGE_SIZE) break;
+      if (deadline !== undefined && Date.now() >= deadline) {
+        outOfTime = true;
+        break;
+      }
+    }
+
+    const partial = outOfTime || (total !== undefined ? offset < total : offset >= MAX_AGGREGATE_ROWS);
+    const results = Array.from(groups.values()).map(({ group, accumulators }) => ({
+      group,
+      values: Object.fromEntries(metrics.map((metric, index) => {
+        const accumulator = accumulators[index];
+        const value = {
+          count: accumulator.count,
+          sum: accumulator.numericCount > 0 ? accumulator.sum : null,
+          avg: accumulator.numericCount > 0 ? accumulator.sum / accumulator.numericCount : null,
+          min: accumulator.min,
+          max: accumulator.max,
+        }[metric.function];
+        return [metricLabel(metric), value];
+      })),
+    }));
+
+    let note = this.aggregateNote(Math.min(results.length, MAX_AGGREGATE_GROUPS), results.length > MAX_AGGREGATE_GROUPS);
+    if (partial) {
+      note += ` Only the first ${offset} of ${total ?? 'the'} matching rows were scanned${outOfTime ? ' before the time budget ran out' : ''}, so these values are partial; narrow the filter for exact results.`;
     }
 
+    return {
+      method: 'client',
+      groups: results.slice(0, MAX_AGGREGATE_GROUPS),
+      rowsScanned: offset,
+      total,
+      partial,
+      note,
+    };
+  }
+
+  private aggregateNote(groupCount: number, truncated: boolean): string {
+    let note = `These are exact computed values for ${groupCount} ${groupCount === 1 ? 'group' : 'groups'}; cite them as returned.`;
+    if (truncated) {
+      note += ` Only the first ${MAX_AGGREGATE_GROUPS} groups are shown; add a filter to see the rest.`;
+    }
+    return note;
+  }
+
+  // Queries a page of a table for the model, always requesting the total count
+  async queryTablePage<T = any>(
+    serviceName: string,
+    tableName: string,
+    params: ModelQueryParams = {}
+  ): Promise<QueryResultPage<T>> {
+    const page = DreamFactoryTool.normalizePage(params);
+    const response = await this.queryTable<T>(serviceName, tableName, {
+      order: params.order,
+      fields: params.fields,
+      related: params.related,
+      ...page,
+      filter: params.filter && await this.buildFilter(serviceName, tableName, params.filter),
+      include_count: true,
+    });
+    return DreamFactoryTool.toResultPage(response, page);
+  }
+
+  // Re-runs a result table's query page by page to fetch every matching row,
+  // up to MAX_EXPORT_ROWS. The first page is fetched up front for the count;
+  // the others as `pages` is iterated, so only one page is held at a time.
+  async exportRows(query: ExportQuery): Promise<{
+    pages: AsyncIterable<Record<string, any>[]>;
+    total?: number;
+    // Rows the pages will hold, when DreamFactory reported a count
+    rowCount?: number;
+    truncated: boolean;
+  }> {
+    const filter = query.filter && await this.buildFilter(query.serviceName, query.tableName, query.filter);
+    const order = await this.pagingOrder(query.serviceName, query.tableName, query.order);
+    const fetchPage = async (offset: number) => this.queryTable(query.serviceName, query.tableName, {
+      filter,
+      fields: query.fields,
+      order,
+      related: query.related,
+      limit: EXPORT_PAGE_SIZE,
+      offset,
+      include_count: offset === 0,
+    });
+
+    const first = await fetchPage(0);
+    const total: number | undefined = first.meta?.count;
+
+    async function* pages(): AsyncGenerator<Record<string, any>[]> {
+      let page: Record<string, any>[] = first.resource || [];
+      let offset = 0;
+      while (true) {
+        yield page;
+        offset += page.length;
+        if (page.length < EXPORT_PAGE_SIZE || offset >= MAX_EXPORT_ROWS) return;
+        page = (await fetchPage(offset)).resource || [];
+      }
+    }
+
+    return {
+      pages: pages(),
+      total,
+      rowCount: total === undefined ? undefined : Math.min(total, MAX_EXPORT_ROWS),
+      truncated: total !== undefined && total > MAX_EXPORT_ROWS,
+    };
+  }
+
+  // An exact match, or a prefix match when `exact` is false
+  static fieldSearchFilter(fieldName: string, value: string | number, exact: boolean = true): FilterNode {
+    return exact
+      ? { op: 'eq', field: fieldName, value }
+      : { op: 'like', field: fieldName, value: `${escapeLike(String(value))}%` };
+  }
+
+  async searchTableByField(
+    serviceName: string,
+    tableName: string,
+    fieldName: string,
+    value: string | number,
+    exact: boolean = true,
+    related?: string,
+    page: PageParams = {}
+  ): Promise<DreamFactoryResponse<any>> {
+    const filter = await this.buildFilter(
+      serviceName,
+      tableName,
+      DreamFactoryTool.fieldSearchFilter(fieldName, value, exact)
+    );
+
     return this.queryTable(serviceName, tableName, {
       filter,
       related,
       include_schema: true,
+      include_count: true,
+      ...page,
     });
   }
 
+  // Finds records by a free-text name such as "Georgi Facello" or
+  // "Facello, Georgi" in the name columns of a service's tables
+  async searchEntities(
+    serviceName: string,
+    term: string,
+    tables?: string[],
+    limit?: number
+  ): Promise<EntitySearchResult> {
+    return EntitySearch.run(this, serviceName, term, tables, limit);
+  }
+
   // Other table methods...
   async queryDepartments(queryParams: DreamFactoryQueryParams = {}): Promise<DreamFactoryTableResponse<Department>> {
     await this.getTableSchema('mysql', 'departments');
@@ -0,0 +1,222 @@
+import { isUnavailableResource, type DreamFactoryTool } from './dreamfactory';
+import { EntityHit, EntitySearchResult } from './types';
+import { IndexedColumn } from './columns';
+import { FilterNode, escapeLike } from './filters';
+import { foldText, scoreNameMatch, similarity, tokenizeName } from './fuzzy';
+
+// Tables searched per call, also when the caller names more
+const MAX_ENTITY_TABLES = 6;
+const MAX_COLUMNS_PER_TABLE = 6;
+const ROWS_PER_TABLE = 50;
+const DEFAULT_HIT_LIMIT = 20;
+
+// Words that mark a text column as holding names of things
+const NAME_WORDS = ['name', 'title', 'label'];
+
+// The letters accented letters most often fold to
+const FOLDABLE_LETTERS = /[aceinouy]/gi;
+
+type SearchMode = 'prefix' | 'contains' | 'accents';
+
+// Splits a search term into words. "Facello, Georgi" is read as "Georgi Facello".
+export function parseSearchTerm(term: string): string[] {
+  const [before, ...after] = term.split(',');
+  const ordered = after.length > 0 ? [...after, before] : [before];
+  return ordered
+    .join(' ')
+    .split(/\s+/)
+    .map(word => word.trim())
+    .filter(Boolean);
+}
+
+function isNameColumn(column: IndexedColumn): boolean {
+  if (column.type !== 'string' && column.type !== 'text') return false;
+  const words = [...tokenizeName(column.column), ...(column.label ? tokenizeName(column.label) : [])];
+  return words.some(word => NAME_WORDS.some(nameWord => word.endsWith(nameWord)));
+}
+
+// How well a search word names the table or one of its columns, e.g.
+// "department" in "Sales department" for departments.dept_name
+function tableRelevance(words: string[], table: string, columns: string[]): number {
+  return Math.max(0, ...words.flatMap(word => [table, ...columns].map(name => scoreNameMatch(word, name))));
+}
+
+// Name-like columns by table, the tables the search words name first, then
+// tables with first/last name pairs
+function candidateColumns(columns: IndexedColumn[], words: string[], tables?: string[]): [string, string[]][] {
+  const wanted = tables && tables.length > 0 ? new Set(tables.map(table => table.toLowerCase())) : undefined;
+  const byTable = new Map<string, string[]>();
+  const allByTable = new Map<string, string[]>();
+
+  for (const column of columns) {
+    if (wanted && !wanted.has(column.table.toLowerCase())) continue;
+    allByTable.set(column.table, [...(allByTable.get(column.table) || []), column.column]);
+    if (!isNameColumn(column)) continue;
+    byTable.set(column.table, [...(byTable.get(column.table) || []), column.column]);
+  }
+
+  const hasPersonName = (names: string[]) =>
+    names.some(name => /first|given/i.test(name)) && names.some(name => /last|sur|family/i.test(name));
+
+  return Array.from(byTable.entries())
+    .map(([table, names]) => ({
+      table,
+      names,
+      relevance: tableRelevance(words, table, allByTable.get(table) || []),
+      personName: hasPersonName(names),
+    }))
+    .sort((a, b) => b.relevance - a.relevance || Number(b.personName) - Number(a.personName))
+    .map(({ table, names }) => [table, names.slice(0, MAX_COLUMNS_PER_TABLE)]);
+}
+
+// A pattern that matches the word whatever accents the stored value has,
+// e.g. "J_s_" for "Jose" to find "José" where the collation tells accented
+// letters apart. It matches other letters as well, so the rows it finds are
+// checked with matchesFolded, and a match past the first ROWS_PER_TABLE rows
+// it finds is missed.
+function accentPattern(word: string): string {
+  return escapeLike(word.normalize('NFD').replace(/\p{M}/gu, '')).replace(FOLDABLE_LETTERS, '_');
+}
+
+// Every word must appear in one of the columns, as a prefix or anywhere.
+// Accented words are also tried without their accents, and in `accents`
+// mode every word is matched with accentPattern.
+function buildEntityFilter(words: string[], columns: string[], mode: SearchMode): FilterNode {
+  return {
+    op: 'and',
+    conditions: words.map((word): FilterNode => {
+      const patterns = mode === 'accents'
+        ? [accentPattern(word)]
+        : Array.from(new Set([word, foldText(word)])).map(escapeLike);
+      return {
+        op: 'or',
+        conditions: columns.flatMap(field =>
+          patterns.map((pattern): FilterNode => ({
+            op: 'like',
+            field,
+            value: mode === 'prefix' ? `${pattern}%` : `%${pattern}%`,
+          }))
+        ),
+      };
+    }),
+  };
+}
+
+// Whether every word appears in one of the values once accents are removed
+function matchesFolded(words: string[], values: string[]): boolean {
+  const folded = values.map(foldText);
+  return words.every(word => folded.some(value => value.includes(foldText(word))));
+}
+
+function textValues(row: Record<string, any>, columns: string[]): string[] {
+  return columns.map(column => row[column]).filter(value => value !== null && value !== undefined).map(String);
+}
+
+// Averages, over the search words, how well each matches a word of the
+// record: exactly, as a prefix, inside a word or by spelling
+function scoreRecord(words: string[], values: string[]): number {
+  const valueWords = values.flatMap(value => foldText(value).split(/[^\p{L}\p{N}]+/u)).filter(Boolean);
+  if (valueWords.length === 0) return 0;
+
+  const total = words.reduce((sum, word) => {
+    const folded = foldText(word);
+    const best = Math.max(
+      ...valueWords.map(valueWord => {
+        if (valueWord === folded) return 1;
+        if (valueWord.startsWith(folded)) return 0.8;
+        if (valueWord.includes(folded)) return 0.6;
+        const spelling = similarity(folded, valueWord);
+        return spelling >= 0.8 ? spelling * 0.5 : 0;
+      })
+    );
+    return sum + best;
+  }, 0);
+
+  return Math.round((total / words.length) * 100) / 100;
+}
+
+// Finds records by a free-text name across the tables of a service, e.g.
+// "Georgi Facello" in employees, and ranks them so that the model can tell
+// exact matches from near misses and ambiguous ones apart
+export class EntitySearch {
+  static async run(
+    dreamFactoryTool: DreamFactoryTool,
+    serviceName: string,
+    term: string,
+    tables?: string[],
+    limit: number = DEFAULT_HIT_LIMIT
+  ): Promise<EntitySearchResult> {
+    const words = parseSearchTerm(term);
+    if (words.length === 0) {
+      return { term, hits: [], exactMatches: 0, searched: {}, note: 'The search term is empty.' };
+    }
+
+    const index = await dreamFactoryTool.getColumnIndex(serviceName);
+    const allCandidates = candidateColumns(index.columns, words, tables);
+    const candidates = allCandidates.slice(0, MAX_ENTITY_TABLES);
+
+    const searched: Record<string, string[]> = {};
+    const results = await Promise.all(
+      candidates.map(async ([table, columns]): Promise<EntityHit[]> => {
+        try {
+          const primaryKey = await dreamFactoryTool.getPrimaryKey(serviceName, table);
+          const query = async (mode: SearchMode) => {
+            const response = await dreamFactoryTool.queryTable(serviceName, table, {
+              filter: await dreamFactoryTool.buildFilter(serviceName, table, buildEntityFilter(words, columns, mode)),
+              fields: Array.from(new Set([...primaryKey, ...columns])),
+              limit: ROWS_PER_TABLE,
+            });
+            return response.resource || [];
+          };
+
+          let rows = await query('prefix');
+          if (rows.length === 0) rows = await query('contains');
+          // Accents are only ignored by the database's collation, if at all
+          if (rows.length === 0 && words.some(word => accentPattern(word) !== escapeLike(word))) {
+            rows = (await query('accents')).filter((row: Record<string, any>) => matchesFolded(words, textValues(row, columns)));
+          }
+          searched[table] = columns;
+
+          return rows.map((row: Record<string, any>) => ({
+            table,
+            primaryKey: Object.fromEntries(primaryKey.map(field => [field, row[field]])),
+            matched: Object.fromEntries(columns.map(column => [column, row[column]])),
+            score: scoreRecord(words, textValues(row, columns)),
+          }));
+        } catch (error) {
+          // Tables the role cannot read, or that reject the filter, are
+          // skipped; an expired session or a failing server ends the search
+          if (!isUnavailableResource(error)) throw error;
+          console.error(`Entity search failed for ${table}:`, error);
+          return [];
+        }
+      })
+    );
+
+    const hits = results.flat().sort((a, b) => b.score - a.score);
+    const exactMatches = hits.filter(hit => hit.score === 1).length;
+    const tableNames = Object.keys(searched);
+
+    let note: string;
+    if (tableNames.length === 0) {
+      note = tables && tables.length > 0
+        ? `None of ${tables.join(', ')} has a searchable name column.`
+        : 'No table in this service has a searchable name column.';
+    } else if (hits.length === 0) {
+      note = `No records matched "${term}" in ${tableNames.join(', ')}. Pass other tables with the tables parameter, or try a shorter term.`;
+    } else {
+      const counts = tableNames
+        .map(table => `${table}: ${hits.filter(hit => hit.table === table && hit.score === 1).length}`)
+        .join(', ');
+      note = `Found ${exactMatches} exact ${exactMatches === 1 ? 'match' : 'matches'} for "${term}" (${counts}) ` +
+        `and ${hits.length - exactMatches} partial. If several records match, tell the user how many and ` +
+        `use the primary keys to tell them apart.`;
+    }
+    if (candidates.length < allCandidates.length) {
+      note += ` Only ${candidates.length} of ${allCandidates.length} tables with name columns were searched; ` +
+        (tables?.length ? `pass the others in another search.` : `pass tables to search others.`);
+    }
+
+    return { term, hits: hits.slice(0, limit), exactMatches, searched, note };
+  }
+}
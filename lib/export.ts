@@ -0,0 +1,140 @@
+import { PassThrough } from 'stream';
+import ExcelJS from 'exceljs';
+import { ExportFormat } from './types';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8',
+};
+
+// Excel's limit on worksheet name length
+const MAX_SHEET_NAME_LENGTH = 31;
+
+// Columns in the order they first appear across the rows
+function columnsOf(rows: Record<string, any>[]): string[] {
+  return Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+}
+
+// Flat cell values; related records and other nested values become JSON
+function cellValue(value: any): string | number | boolean | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+// Spreadsheet apps run text starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Cell values for CSV and XLSX, with formula-like text prefixed by an
+// apostrophe so that it opens as text
+function spreadsheetValue(value: any): string | number | boolean | null {
+  const cell = cellValue(value);
+  return typeof cell === 'string' && FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+}
+
+function csvField(value: any): string {
+  const cell = spreadsheetValue(value);
+  if (cell === null) return '';
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Pulls one chunk at a time, so that pages are fetched as the client reads
+function toReadableStream(chunks: AsyncGenerator<string | Uint8Array>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(typeof value === 'string' ? encoder.encode(value) : value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+// Serializes the rows of a result table for download. Rows arrive in pages
+// and are written as they arrive; columns are those of the first page.
+export class ResultExporter {
+  static fileName(tableName: string, format: ExportFormat): string {
+    const base = tableName.replace(/[^A-Za-z0-9_.-]+/g, '_') || 'export';
+    return `${base}.${format}`;
+  }
+
+  static stream(pages: AsyncIterable<Record<string, any>[]>, format: ExportFormat, sheetName: string): ReadableStream<Uint8Array> {
+    switch (format) {
+      case 'csv':
+        return toReadableStream(ResultExporter.toCsv(pages));
+      case 'json':
+        return toReadableStream(ResultExporter.toJson(pages));
+      case 'xlsx':
+        return toReadableStream(ResultExporter.toXlsx(pages, sheetName));
+    }
+  }
+
+  // RFC 4180 CSV with a header row. The byte order mark lets Excel detect UTF-8.
+  static async *toCsv(pages: AsyncIterable<Record<string, any>[]>): AsyncGenerator<string> {
+    let columns: string[] | undefined;
+    for await (const rows of pages) {
+      if (!columns) {
+        columns = columnsOf(rows);
+        yield `\uFEFF${columns.map(csvField).join(',')}\r\n`;
+      }
+      const pageColumns = columns;
+      yield rows.map(row => `${pageColumns.map(column => csvField(row[column])).join(',')}\r\n`).join('');
+    }
+  }
+
+  // The same text as JSON.stringify(rows, null, 2)
+  static async *toJson(pages: AsyncIterable<Record<string, any>[]>): AsyncGenerator<string> {
+    let count = 0;
+    yield '[';
+    for await (const rows of pages) {
+      yield rows
+        .map(row => `${count++ === 0 ? '' : ','}\n  ${JSON.stringify(row, null, 2).replace(/\n/g, '\n  ')}`)
+        .join('');
+    }
+    yield count === 0 ? ']' : '\n]';
+  }
+
+  static async *toXlsx(pages: AsyncIterable<Record<string, any>[]>, sheetName: string): AsyncGenerator<Uint8Array> {
+    const output = new PassThrough();
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+    const sheet = workbook.addWorksheet(
+      sheetName.replace(/[\\/?*[\]:]/g, '_').slice(0, MAX_SHEET_NAME_LENGTH) || 'Sheet1',
+      { views: [{ state: 'frozen', ySplit: 1 }] }
+    );
+
+    // Written while the output is read below
+    const written = (async () => {
+      let columns: string[] | undefined;
+      for await (const rows of pages) {
+        if (!columns) {
+          columns = columnsOf(rows);
+          sheet.columns = columns.map(column => ({
+            header: spreadsheetValue(column) as string,
+            key: column,
+            width: Math.min(Math.max(column.length + 2, 10), 40),
+          }));
+          sheet.getRow(1).font = { bold: true };
+        }
+        const pageColumns = columns;
+        for (const row of rows) {
+          sheet.addRow(Object.fromEntries(pageColumns.map(column => [column, spreadsheetValue(row[column])]))).commit();
+        }
+      }
+      await workbook.commit();
+    })();
+    written.catch(error => output.destroy(error));
+
+    for await (const chunk of output) {
+      yield new Uint8Array(chunk);
+    }
+    await written;
+  }
+}
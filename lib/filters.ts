@@ -0,0 +1,277 @@
+import { z } from 'zod';
+
+// Structured DreamFactory filters. Values are quoted and escaped when the
+// filter is compiled, and field names can be checked against a table schema,
+// so user or model input can never change the shape of the filter.
+
+export type FilterValue = string | number | boolean;
+
+export type FilterNode =
+  | { op: 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte'; field: string; value: FilterValue }
+  // A pattern: `%` matches any sequence of characters and `_` any single
+  // character, and a backslash makes the next character literal. Literal
+  // text from users goes through escapeLike first.
+  | { op: 'like'; field: string; value: string }
+  | { op: 'in'; field: string; values: FilterValue[] }
+  | { op: 'between'; field: string; from: FilterValue; to: FilterValue }
+  | { op: 'is_null' | 'is_not_null'; field: string }
+  | { op: 'and' | 'or'; conditions: FilterNode[] }
+  | { op: 'not'; condition: FilterNode };
+
+export class FilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FilterError';
+  }
+}
+
+const FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+
+const filterValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+// The shape of a FilterNode, checked before compiling since filters come
+// from the model and from request bodies
+export const filterNodeSchema: z.ZodType<FilterNode> = z.lazy(() =>
+  z.discriminatedUnion('op', [
+    z.object({ op: z.enum(['eq', 'ne', 'gt', 'gte', 'lt', 'lte']), field: z.string(), value: filterValueSchema }),
+    z.object({ op: z.literal('like'), field: z.string(), value: z.string() }),
+    z.object({ op: z.literal('in'), field: z.string(), values: z.array(filterValueSchema) }),
+    z.object({ op: z.literal('between'), field: z.string(), from: filterValueSchema, to: filterValueSchema }),
+    z.object({ op: z.enum(['is_null', 'is_not_null']), field: z.string() }),
+    z.object({ op: z.enum(['and', 'or']), conditions: z.array(filterNodeSchema) }),
+    z.object({ op: z.literal('not'), condition: filterNodeSchema }),
+  ])
+);
+
+const COMPARISON_OPERATORS = {
+  eq: '=',
+  ne: '!=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+} as const;
+
+const NEGATED_COMPARISONS = {
+  eq: 'ne',
+  ne: 'eq',
+  gt: 'lte',
+  gte: 'lt',
+  lt: 'gte',
+  lte: 'gt',
+} as const;
+
+// How the service's database reads backslashes and `like` patterns.
+// MySQL and MariaDB treat a backslash in a string literal as an escape.
+// SQL Server, SQLite, Oracle and PostgreSQL (with standard_conforming_strings,
+// its default) keep backslashes in literals. DreamFactory's filter syntax has
+// no `escape` clause, so literal wildcards are written the way each database
+// reads them by default:
+//   mysql     backslash, the default `like` escape
+//   pgsql     backslash, the default `like` escape
+//   sqlsrv    brackets, e.g. `[%]`
+//   standard  no escape at all, so a literal `%` or `_` becomes `_`, which
+//             matches it along with any other single character
+export type FilterDialect = 'mysql' | 'pgsql' | 'sqlsrv' | 'standard';
+
+const MYSQL_SERVICE_TYPES = ['mysql', 'mariadb', 'aurora_mysql'];
+
+// The dialect for a DreamFactory service type. An unknown service is treated
+// as MySQL, whose escaping is the one that keeps quotes closed everywhere.
+export function filterDialectFor(serviceType?: string): FilterDialect {
+  const type = serviceType?.toLowerCase();
+  if (!type || MYSQL_SERVICE_TYPES.includes(type)) return 'mysql';
+  if (type === 'pgsql' || type === 'sqlsrv') return type;
+  return 'standard';
+}
+
+// Makes text match literally in a `like` pattern, written with backslash
+// escapes whatever the database; compiling translates them for its dialect
+export function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, character => `\\${character}`);
+}
+
+// Strings double `'`, and in MySQL also `\`, since MySQL reads a backslash in
+// a string literal as an escape and `\'` or a trailing `\` would otherwise end
+// the quotes early. Other databases would keep the doubled backslash.
+export function quoteValue(value: FilterValue, dialect: FilterDialect = 'mysql'): string {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new FilterError(`Invalid number in filter: ${value}`);
+    }
+    return String(value);
+  }
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (typeof value === 'string') {
+    const escaped = dialect === 'mysql' ? value.replace(/\\/g, '\\\\') : value;
+    return `'${escaped.replace(/'/g, "''")}'`;
+  }
+  throw new FilterError(`Unsupported filter value: ${JSON.stringify(value)}`);
+}
+
+// Writes a literal character of a `like` pattern the way the database reads it
+function literalLikeCharacter(character: string, dialect: FilterDialect): string {
+  switch (dialect) {
+    case 'mysql':
+    case 'pgsql':
+      return /[\\%_]/.test(character) ? `\\${character}` : character;
+    case 'sqlsrv':
+      return /[%_[]/.test(character) ? `[${character}]` : character;
+    case 'standard':
+      return /[%_]/.test(character) ? '_' : character;
+  }
+}
+
+// A quoted `like` pattern, with the backslash escapes of the portable
+// pattern translated for the database
+function likePattern(value: string, dialect: FilterDialect): string {
+  let pattern = '';
+  for (let index = 0; index < value.length; index++) {
+    const character = value[index];
+    if (character === '%' || character === '_') {
+      pattern += character;
+    } else if (character === '\\' && index + 1 < value.length) {
+      pattern += literalLikeCharacter(value[++index], dialect);
+    } else {
+      pattern += literalLikeCharacter(character, dialect);
+    }
+  }
+  return quoteValue(pattern, dialect);
+}
+
+function checkField(field: string, allowedFields?: Set<string>): string {
+  if (typeof field !== 'string' || !FIELD_PATTERN.test(field)) {
+    throw new FilterError(`Invalid field name in filter: ${JSON.stringify(field)}`);
+  }
+  if (allowedFields && !allowedFields.has(field.toLowerCase())) {
+    throw new FilterError(`Unknown field in filter: ${field}. Check the table schema for valid field names.`);
+  }
+  return field;
+}
+
+// Pushes negation down to the leaves, since DreamFactory has no portable
+// `not (...)` syntax but supports negated operators
+function negate(node: FilterNode): FilterNode {
+  switch (node.op) {
+    case 'eq':
+    case 'ne':
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return { ...node, op: NEGATED_COMPARISONS[node.op] };
+    case 'is_null':
+      return { op: 'is_not_null', field: node.field };
+    case 'is_not_null':
+      return { op: 'is_null', field: node.field };
+    case 'between':
+      return {
+        op: 'or',
+        conditions: [
+          { op: 'lt', field: node.field, value: node.from },
+          { op: 'gt', field: node.field, value: node.to },
+        ],
+      };
+    case 'and':
+      return { op: 'or', conditions: node.conditions.map(negate) };
+    case 'or':
+      return { op: 'and', conditions: node.conditions.map(negate) };
+    case 'not':
+      return node.condition;
+    case 'like':
+    case 'in':
+      // Handled by compileNode with `not like` / `not in`
+      return { op: 'not', condition: node };
+  }
+}
+
+interface CompileContext {
+  allowedFields?: Set<string>;
+  dialect: FilterDialect;
+}
+
+function compileNode(node: FilterNode, context: CompileContext, negated: boolean = false): string {
+  const { allowedFields, dialect } = context;
+
+  if (!node || typeof node !== 'object') {
+    throw new FilterError('Filter conditions must be objects');
+  }
+
+  switch (node.op) {
+    case 'eq':
+    case 'ne':
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return `(${checkField(node.field, allowedFields)} ${COMPARISON_OPERATORS[node.op]} ${quoteValue(node.value, dialect)})`;
+    case 'like':
+      return `(${checkField(node.field, allowedFields)} ${negated ? 'not like' : 'like'} ${likePattern(String(node.value), dialect)})`;
+    case 'in':
+      if (!Array.isArray(node.values) || node.values.length === 0) {
+        throw new FilterError(`"in" on ${node.field} needs a non-empty values list`);
+      }
+      return `(${checkField(node.field, allowedFields)} ${negated ? 'not in' : 'in'} (${node.values.map(value => quoteValue(value, dialect)).join(',')}))`;
+    case 'between':
+      return compileNode(
+        {
+          op: 'and',
+          conditions: [
+            { op: 'gte', field: node.field, value: node.from },
+            { op: 'lte', field: node.field, value: node.to },
+          ],
+        },
+        context
+      );
+    case 'is_null':
+      return `(${checkField(node.field, allowedFields)} is null)`;
+    case 'is_not_null':
+      return `(${checkField(node.field, allowedFields)} is not null)`;
+    case 'and':
+    case 'or':
+      if (!Array.isArray(node.conditions) || node.conditions.length === 0) {
+        throw new FilterError(`"${node.op}" needs a non-empty conditions list`);
+      }
+      if (node.conditions.length === 1) {
+        return compileNode(node.conditions[0], context);
+      }
+      return `(${node.conditions.map(condition => compileNode(condition, context)).join(` ${node.op} `)})`;
+    case 'not': {
+      const condition = node.condition;
+      if (condition?.op === 'like' || condition?.op === 'in') {
+        return compileNode(condition, context, true);
+      }
+      return compileNode(negate(condition), context);
+    }
+    default:
+      throw new FilterError(`Unknown filter operator: ${JSON.stringify((node as any).op)}`);
+  }
+}
+
+// Compiles a filter to DreamFactory syntax, escaped for the database's
+// dialect. When `allowedFields` is given, every field must be one of them
+// (compared case-insensitively).
+export function compileFilter(filter: FilterNode, allowedFields?: string[], dialect: FilterDialect = 'mysql'): string {
+  const parsed = filterNodeSchema.safeParse(filter);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new FilterError(
+      `Invalid filter${issue.path.length > 0 ? ` at ${issue.path.join('.')}` : ''}: ${issue.message}`
+    );
+  }
+
+  return compileNode(parsed.data, {
+    allowedFields: allowedFields && allowedFields.length > 0
+      ? new Set(allowedFields.map(field => field.toLowerCase()))
+      : undefined,
+    dialect,
+  });
+}
+
+// Describes FilterNode to the model in tool definitions
+export const FILTER_PARAMETER_DESCRIPTION =
+  'Structured filter. A condition is one of: {"op": "eq"|"ne"|"gt"|"gte"|"lt"|"lte", "field", "value"}, ' +
+  '{"op": "like", "field", "value"} where % matches any text and _ any single character, {"op": "in", "field", "values": [...]}, ' +
+  '{"op": "between", "field", "from", "to"}, {"op": "is_null"|"is_not_null", "field"}, ' +
+  '{"op": "and"|"or", "conditions": [...]} or {"op": "not", "condition"}. ' +
+  'Example: {"op": "and", "conditions": [{"op": "eq", "field": "CityName", "value": "Abbeville"}, {"op": "eq", "field": "StateProvinceID", "value": 1}]}';
@@ -0,0 +1,104 @@
+// Approximate matching of names such as column names ("LastName",
+// "last_name", "surname") and search terms
+
+// Groups of interchangeable words, compared after normalization
+const SYNONYM_GROUPS: string[][] = [
+  ['lastname', 'surname', 'familyname'],
+  ['firstname', 'givenname', 'forename'],
+  ['salary', 'wage', 'pay', 'compensation', 'income', 'earnings'],
+  ['email', 'emailaddress', 'mail'],
+  ['phone', 'telephone', 'phonenumber', 'mobile', 'cell'],
+  ['birthdate', 'dateofbirth', 'dob', 'birthday'],
+  ['zip', 'zipcode', 'postalcode', 'postcode'],
+  ['company', 'organization', 'organisation', 'employer'],
+  ['city', 'town'],
+  ['country', 'nation'],
+  ['price', 'cost', 'amount'],
+  ['quantity', 'qty'],
+  ['address', 'street'],
+  ['department', 'dept'],
+  ['employee', 'emp', 'staff', 'worker'],
+  ['customer', 'client'],
+  ['hiredate', 'startdate'],
+  ['title', 'jobtitle', 'position', 'role'],
+];
+
+const synonymsByWord = new Map<string, string[]>();
+for (const group of SYNONYM_GROUPS) {
+  for (const word of group) {
+    synonymsByWord.set(word, group);
+  }
+}
+
+// "Last_Name", "lastName" and "last name" all become "lastname"
+export function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Lower case without accents, for comparing values: "Émile" -> "emile"
+export function foldText(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+// Splits on separators and camelCase: "emp_FirstName" -> ["emp", "first", "name"]
+export function tokenizeName(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// The normalized name and its synonyms
+export function expandSynonyms(name: string): string[] {
+  const normalized = normalizeName(name);
+  return synonymsByWord.get(normalized) || [normalized];
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for identical strings, falling towards 0 as more edits are needed
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+}
+
+// Scores how well a name (e.g. a column) matches a search term, from 0 to 1:
+// exact match, synonym, shared word, substring and finally spelling similarity
+export function scoreNameMatch(term: string, name: string): number {
+  const normalizedTerm = normalizeName(term);
+  const normalizedName = normalizeName(name);
+  if (!normalizedTerm || !normalizedName) return 0;
+  if (normalizedTerm === normalizedName) return 1;
+
+  const synonyms = expandSynonyms(term);
+  if (synonyms.includes(normalizedName)) return 0.9;
+
+  const tokens = tokenizeName(name);
+  const tokenSynonyms = new Set(tokens.flatMap(expandSynonyms));
+  // Also try the name without its first word, e.g. "emp_last_name" -> "lastname"
+  const withoutPrefix = tokens.length > 1 ? tokens.slice(1).join('') : '';
+  if (withoutPrefix && synonyms.includes(withoutPrefix)) return 0.85;
+  if (synonyms.some(synonym => tokenSynonyms.has(synonym))) return 0.7;
+
+  if (normalizedTerm.length >= 3 && synonyms.some(synonym => normalizedName.includes(synonym))) return 0.6;
+
+  const spelling = similarity(normalizedTerm, normalizedName);
+  return spelling >= 0.75 ? spelling * 0.6 : 0;
+}
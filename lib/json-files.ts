@@ -0,0 +1,37 @@
+// Node.js only: used by the file stores, which edge bundles never include
+import { mkdir, readdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+
+// The parsed file, or undefined if there is none
+export async function readJsonFile<T>(file: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8'));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+// Every .json file of a directory, which may not exist yet
+export async function readJsonFiles<T>(directory: string): Promise<T[]> {
+  let files: string[];
+  try {
+    files = await readdir(directory);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const values = await Promise.all(
+    files.filter(file => file.endsWith('.json')).map(file => readJsonFile<T>(path.join(directory, file)))
+  );
+  // Files removed since the directory was listed are left out
+  return values.filter(value => value !== undefined) as T[];
+}
+
+// Written to a temporary file first so that a crash never leaves half a file
+export async function writeJsonFile(file: string, value: unknown): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(`${file}.tmp`, JSON.stringify(value));
+  await rename(`${file}.tmp`, file);
+}
@@ -0,0 +1,349 @@
+import OpenAI from 'openai';
+import { ChatMessage, ChatToolCall } from './types';
+import type { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions';
+
+// Provider-neutral tool definition (JSON Schema parameters)
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  toolChoice?: 'auto' | 'none';
+  // Receives answer text as it is generated; enables streaming
+  onToken?: (token: string) => void;
+}
+
+export interface CompletionResult {
+  content: string | null;
+  toolCalls: ChatToolCall[];
+}
+
+export interface LLMProvider {
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+// OpenAI and any server exposing the OpenAI chat completions API
+// (llama.cpp, vLLM, Ollama, ...) through a custom base URL
+export class OpenAIProvider implements LLMProvider {
+  private openai: OpenAI;
+  private model: string;
+
+  constructor(apiKey: string, model: string, baseURL?: string) {
+    this.openai = new OpenAI({ apiKey, baseURL });
+    this.model = model;
+  }
+
+  private convertToChatMessage(msg: ChatMessage): ChatCompletionMessageParam {
+    if (msg.role === 'tool') {
+      return {
+        role: msg.role,
+        content: msg.content,
+        tool_call_id: msg.toolCallId || 'unknown',
+      };
+    }
+    if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      return {
+        role: msg.role,
+        content: msg.content || null,
+        tool_calls: msg.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+    return {
+      role: msg.role,
+      content: msg.content,
+    };
+  }
+
+  private convertTool(tool: ToolDefinition): ChatCompletionTool {
+    return { type: 'function', function: tool };
+  }
+
+  // When streaming, content deltas are forwarded as tokens and tool call
+  // deltas are accumulated by index
+  async complete({ messages, tools = [], toolChoice = 'auto', onToken }: CompletionRequest): Promise<CompletionResult> {
+    const request = {
+      model: this.model,
+      messages: messages.map(this.convertToChatMessage),
+      ...(tools.length > 0 && {
+        tools: tools.map(this.convertTool),
+        tool_choice: toolChoice,
+      }),
+    };
+
+    if (!onToken) {
+      const response = await this.openai.chat.completions.create(request);
+      const { content, tool_calls } = response.choices[0].message;
+      return {
+        content,
+        toolCalls: (tool_calls || []).map(call => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: call.function.arguments,
+        })),
+      };
+    }
+
+    const stream = await this.openai.chat.completions.create({ ...request, stream: true });
+    let content = '';
+    const toolCalls: ChatToolCall[] = [];
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) continue;
+
+      for (const callDelta of delta.tool_calls || []) {
+        const call = toolCalls[callDelta.index] || { id: '', name: '', arguments: '' };
+        call.id += callDelta.id || '';
+        call.name += callDelta.function?.name || '';
+        call.arguments += callDelta.function?.arguments || '';
+        toolCalls[callDelta.index] = call;
+      }
+      if (delta.content) {
+        content += delta.content;
+        onToken(delta.content);
+      }
+    }
+
+    return { content: content || null, toolCalls };
+  }
+}
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: any }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+// Replayed tool_use input must be an object, even for calls whose
+// arguments were malformed
+function parseToolInput(argumentsJson: string): Record<string, any> {
+  try {
+    const input = JSON.parse(argumentsJson || '{}');
+    return input && typeof input === 'object' && !Array.isArray(input) ? input : {};
+  } catch {
+    return {};
+  }
+}
+
+// Anthropic Messages API with tool use, called over fetch so that it runs
+// under the edge runtime without an additional SDK
+export class AnthropicProvider implements LLMProvider {
+  private apiKey: string;
+  private model: string;
+  private baseUrl: string;
+
+  constructor(apiKey: string, model: string, baseUrl: string = 'https://api.anthropic.com') {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  // System messages become the top-level system prompt, tool results become
+  // user turns, and consecutive turns of the same role are merged as the API
+  // requires alternating roles
+  private convertMessages(messages: ChatMessage[]): { system: string; messages: AnthropicMessage[] } {
+    const system: string[] = [];
+    const converted: AnthropicMessage[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'system') {
+        system.push(msg.content);
+        continue;
+      }
+
+      let role: AnthropicMessage['role'];
+      const content: AnthropicContentBlock[] = [];
+
+      if (msg.role === 'tool') {
+        role = 'user';
+        content.push({ type: 'tool_result', tool_use_id: msg.toolCallId || 'unknown', content: msg.content });
+      } else {
+        role = msg.role;
+        if (msg.content) {
+          content.push({ type: 'text', text: msg.content });
+        }
+        for (const call of msg.toolCalls || []) {
+          content.push({
+            type: 'tool_use',
+            id: call.id,
+            name: call.name,
+            input: parseToolInput(call.arguments),
+          });
+        }
+      }
+
+      if (content.length === 0) continue;
+
+      const previous = converted[converted.length - 1];
+      if (previous && previous.role === role) {
+        previous.content.push(...content);
+      } else {
+        converted.push({ role, content });
+      }
+    }
+
+    return { system: system.join('\n\n'), messages: converted };
+  }
+
+  private convertTool(tool: ToolDefinition) {
+    return {
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters,
+    };
+  }
+
+  async complete({ messages, tools = [], toolChoice = 'auto', onToken }: CompletionRequest): Promise<CompletionResult> {
+    const { system, messages: anthropicMessages } = this.convertMessages(messages);
+
+    const response = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: 4096,
+        system: system || undefined,
+        messages: anthropicMessages,
+        ...(tools.length > 0 && {
+          tools: tools.map(this.convertTool),
+          tool_choice: { type: toolChoice },
+        }),
+        stream: !!onToken,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(
+        errorData?.error?.message ||
+        `Failed to fetch from Anthropic: ${response.status} ${response.statusText}`
+      );
+    }
+
+    if (!onToken) {
+      const data: { content: AnthropicContentBlock[] } = await response.json();
+      return this.toResult(data.content);
+    }
+
+    return this.readStream(response, onToken);
+  }
+
+  private toResult(blocks: AnthropicContentBlock[]): CompletionResult {
+    let content = '';
+    const toolCalls: ChatToolCall[] = [];
+
+    for (const block of blocks) {
+      if (block.type === 'text') {
+        content += block.text;
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({ id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) });
+      }
+    }
+
+    return { content: content || null, toolCalls };
+  }
+
+  // Rebuilds content blocks from the server-sent event stream
+  private async readStream(response: Response, onToken: (token: string) => void): Promise<CompletionResult> {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    const blocks: AnthropicContentBlock[] = [];
+    const partialInputs: string[] = [];
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data: ')) continue;
+        const event = JSON.parse(line.slice(6));
+
+        if (event.type === 'content_block_start') {
+          blocks[event.index] = event.content_block;
+          partialInputs[event.index] = '';
+        } else if (event.type === 'content_block_delta') {
+          const block = blocks[event.index];
+          if (event.delta.type === 'text_delta' && block.type === 'text') {
+            block.text += event.delta.text;
+            onToken(event.delta.text);
+          } else if (event.delta.type === 'input_json_delta') {
+            partialInputs[event.index] += event.delta.partial_json;
+          }
+        } else if (event.type === 'content_block_stop') {
+          const block = blocks[event.index];
+          if (block.type === 'tool_use' && partialInputs[event.index]) {
+            // Malformed input is passed on as text and reported to the model by the tool loop
+            try {
+              block.input = JSON.parse(partialInputs[event.index]);
+            } catch {
+              block.input = partialInputs[event.index];
+            }
+          }
+        } else if (event.type === 'error') {
+          throw new Error(event.error?.message || 'Anthropic stream error');
+        }
+      }
+    }
+
+    return this.toResult(blocks.filter(Boolean));
+  }
+}
+
+// Selects the provider from environment configuration:
+//   LLM_PROVIDER      openai (default), openai-compatible or anthropic
+//   LLM_MODEL         model name, defaulting per provider
+//   OPENAI_API_KEY    OpenAI key (optional for local OpenAI-compatible servers)
+//   OPENAI_BASE_URL   base URL of an OpenAI-compatible server
+//   ANTHROPIC_API_KEY / ANTHROPIC_BASE_URL
+export function createProviderFromEnv(env: Record<string, string | undefined> = process.env): LLMProvider {
+  const provider = env.LLM_PROVIDER || 'openai';
+
+  switch (provider) {
+    case 'openai':
+      if (!env.OPENAI_API_KEY) {
+        throw new Error('Missing OPENAI_API_KEY environment variable');
+      }
+      return new OpenAIProvider(env.OPENAI_API_KEY, env.LLM_MODEL || 'gpt-4-0125-preview', env.OPENAI_BASE_URL);
+    case 'openai-compatible':
+      if (!env.OPENAI_BASE_URL) {
+        throw new Error('Missing OPENAI_BASE_URL environment variable');
+      }
+      if (!env.LLM_MODEL) {
+        throw new Error('Missing LLM_MODEL environment variable');
+      }
+      // Local servers usually ignore the key, but the SDK requires one
+      return new OpenAIProvider(env.OPENAI_API_KEY || 'not-needed', env.LLM_MODEL, env.OPENAI_BASE_URL);
+    case 'anthropic':
+      if (!env.ANTHROPIC_API_KEY) {
+        throw new Error('Missing ANTHROPIC_API_KEY environment variable');
+      }
+      return new AnthropicProvider(
+        env.ANTHROPIC_API_KEY,
+        env.LLM_MODEL || 'claude-3-5-sonnet-latest',
+        env.ANTHROPIC_BASE_URL
+      );
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+}
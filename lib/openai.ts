@@ -1,21 +1,145 @@
-import OpenAI from 'openai';
-import { ChatMessage } from './types';
-import { DreamFactoryTool } from './dreamfactory';
+import { ChartData, ChartDataset, ChatMessage, ChatStreamEvent, ChatToolCall, ExportQuery, RecordChange, ResultTable, TraceStep } from './types';
+import { AccessDeniedError, DreamFactoryTool } from './dreamfactory';
 import { SearchService } from './search';
-import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { LLMProvider, ToolDefinition } from './llm';
+import { FILTER_PARAMETER_DESCRIPTION } from './filters';
+import { ChartBuilder } from './charts';
+import { SessionExpiredError } from './auth';
 
+export interface ToolLoopOptions {
+  // Maximum number of model turns that may request tools
+  maxIterations?: number;
+  // Wall-clock budget for the whole tool loop
+  timeBudgetMs?: number;
+  // Identical calls (same tool and arguments) tolerated before stopping
+  maxRepeatedCalls?: number;
+}
+
+// What one run of the tool loop produced for the answer
+export interface ChatLoopResult {
+  response: string;
+  endpoints: string[];
+  trace: TraceStep[];
+  changes: RecordChange[];
+  table?: ResultTable;
+  charts: ChartData[];
+}
+
+const DEFAULT_TOOL_LOOP_OPTIONS: Required<ToolLoopOptions> = {
+  maxIterations: 10,
+  timeBudgetMs: 30000,
+  maxRepeatedCalls: 2,
+};
+
+// Stable key for a tool call so that argument order doesn't matter
+function toolCallKey(call: ChatToolCall): string {
+  const sortKeys = (value: any): any => {
+    if (Array.isArray(value)) return value.map(sortKeys);
+    if (value && typeof value === 'object') {
+      return Object.keys(value).sort().reduce((sorted: Record<string, any>, key) => {
+        sorted[key] = sortKeys(value[key]);
+        return sorted;
+      }, {});
+    }
+    return value;
+  };
+
+  try {
+    return `${call.name}:${JSON.stringify(sortKeys(JSON.parse(call.arguments || '{}')))}`;
+  } catch {
+    return `${call.name}:${call.arguments}`;
+  }
+}
+
+const TRACE_PREVIEW_LENGTH = 500;
+
+// The arguments of a tool call. Malformed JSON from the model is reported
+// back to it as the call's result so that it can retry.
+function parseArguments(call: ChatToolCall): { args: Record<string, any>; error?: string } {
+  if (!call.arguments) return { args: {} };
+  try {
+    const args = JSON.parse(call.arguments);
+    if (args && typeof args === 'object' && !Array.isArray(args)) return { args };
+    return { args: {}, error: 'invalid JSON arguments: expected an object' };
+  } catch (error) {
+    return { args: {}, error: `invalid JSON arguments: ${error instanceof Error ? error.message : 'parse error'}` };
+  }
+}
+
+// Number of rows in a tool result, for DreamFactory record sets and plain lists
+function countRows(result: any): number | undefined {
+  if (Array.isArray(result)) return result.length;
+  if (Array.isArray(result?.records)) return result.records.length;
+  if (Array.isArray(result?.groups)) return result.groups.length;
+  if (Array.isArray(result?.hits)) return result.hits.length;
+  if (Array.isArray(result?.resource)) return result.resource.length;
+  return undefined;
+}
+
+// The records of a queryTable or searchTableByField result, shown with the
+// answer as a table and exportable by re-running the query they came from
+function toResultTable(call: ChatToolCall, args: Record<string, any>, result: any): ResultTable | undefined {
+  if (!['queryTable', 'searchTableByField'].includes(call.name) ||
+      !Array.isArray(result?.records) || result.records.length === 0) {
+    return undefined;
+  }
+
+  const query: ExportQuery = call.name === 'queryTable'
+    ? {
+        serviceName: args.serviceName,
+        tableName: args.tableName,
+        filter: args.queryParams?.filter,
+        fields: args.queryParams?.fields,
+        order: args.queryParams?.order,
+        related: args.queryParams?.related,
+      }
+    : {
+        serviceName: args.serviceName,
+        tableName: args.tableName,
+        filter: DreamFactoryTool.fieldSearchFilter(args.fieldName, args.value, args.exact),
+        related: args.related,
+      };
+
+  return {
+    serviceName: args.serviceName,
+    tableName: args.tableName,
+    columns: result.columns,
+    rows: result.records,
+    total: result.total,
+    offset: result.offset,
+    query,
+  };
+}
+
+function previewResult(result: any): string {
+  const text = typeof result === 'string' ? result : JSON.stringify(result) ?? '';
+  return text.length > TRACE_PREVIEW_LENGTH ? `${text.slice(0, TRACE_PREVIEW_LENGTH)}…` : text;
+}
+
+// Runs the DreamFactory tool loop against any LLMProvider
 export class OpenAIService {
-  private openai: OpenAI;
+  private provider: LLMProvider;
   private dreamFactoryTool: DreamFactoryTool;
   private searchService: SearchService;
+  private toolLoopOptions: Required<ToolLoopOptions>;
 
-  constructor(openaiApiKey: string, dreamFactoryTool: DreamFactoryTool, serperApiKey: string) {
-    this.openai = new OpenAI({ apiKey: openaiApiKey });
+  constructor(
+    provider: LLMProvider,
+    dreamFactoryTool: DreamFactoryTool,
+    serperApiKey: string,
+    toolLoopOptions: ToolLoopOptions = {}
+  ) {
+    this.provider = provider;
     this.dreamFactoryTool = dreamFactoryTool;
     this.searchService = new SearchService(serperApiKey);
+    this.toolLoopOptions = {
+      maxIterations: toolLoopOptions.maxIterations ?? DEFAULT_TOOL_LOOP_OPTIONS.maxIterations,
+      timeBudgetMs: toolLoopOptions.timeBudgetMs ?? DEFAULT_TOOL_LOOP_OPTIONS.timeBudgetMs,
+      maxRepeatedCalls: toolLoopOptions.maxRepeatedCalls ?? DEFAULT_TOOL_LOOP_OPTIONS.maxRepeatedCalls,
+    };
   }
 
-  private readonly functions = [
+  private readonly functions: ToolDefinition[] = [
     {
       name: 'listServices',
       description: 'List all available DreamFactory services',
@@ -70,9 +194,57 @@ export class OpenAIService {
         required: ['serviceName'],
       },
     },
+    {
+      name: 'findColumns',
+      description: 'Find which tables of a service have a column resembling a name, e.g. "salary" or "surname" (matches last_name). Matches column names, labels and common synonyms, and returns the best matches with a score from 0 to 1.',
+      parameters: {
+        type: 'object',
+        properties: {
+          serviceName: {
+            type: 'string',
+            description: 'The name of the service to search',
+          },
+          query: {
+            type: 'string',
+            description: 'The column name or concept to look for',
+          },
+          type: {
+            type: 'string',
+            description: 'Only return columns of this DreamFactory type (e.g. "string", "integer", "date", "decimal")',
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of matches to return (default 25)',
+          },
+        },
+        required: ['serviceName', 'query'],
+      },
+    },
+    {
+      name: 'findJoinPath',
+      description: 'Find how two tables of a service are related. Returns the chain of DreamFactory relationship names to pass as queryTable\'s related parameter. Use this instead of guessing relationship names.',
+      parameters: {
+        type: 'object',
+        properties: {
+          serviceName: {
+            type: 'string',
+            description: 'The name of the service containing both tables',
+          },
+          fromTable: {
+            type: 'string',
+            description: 'The table to query, e.g. "employees"',
+          },
+          toTable: {
+            type: 'string',
+            description: 'The table whose data should be included, e.g. "departments"',
+          },
+        },
+        required: ['serviceName', 'fromTable', 'toTable'],
+      },
+    },
     {
       name: 'queryTable',
-      description: 'Query a table in a service with optional related data. Make sure the table exists by using listTables first.',
+      description: 'Query a table in a service with optional related data. Make sure the table exists by using listTables first. Results are paged: at most 100 rows are returned by default (up to 1000 with limit) together with the total row count, and large pages are cut to fit the response size. Use offset to fetch further pages.',
       parameters: {
         type: 'object',
         properties: {
@@ -87,26 +259,142 @@ export class OpenAIService {
           queryParams: {
             type: 'object',
             properties: {
-              filter: { 
-                type: 'string',
-                description: 'SQL-like filter string. For multiple conditions, use parentheses and proper spacing. Example: "(CityName=\'Abbeville\') and (StateProvinceID=1)"'
+              filter: {
+                type: 'object',
+                description: FILTER_PARAMETER_DESCRIPTION,
               },
               related: {
                 type: 'string',
-                description: 'Comma-separated list of related tables to include (e.g., "Application.StateProvinces_by_StateProvinceID")'
+                description: 'Comma-separated list of relationship names to include (e.g., "Application.StateProvinces_by_StateProvinceID"). Get them from findJoinPath or the table schema.'
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of rows to return (default 100, max 1000)',
+              },
+              offset: {
+                type: 'number',
+                description: 'Number of rows to skip, for paging through results',
               },
-              limit: { type: 'number' },
-              offset: { type: 'number' },
               order: { type: 'string' },
               fields: { type: 'array', items: { type: 'string' } },
-              include_count: { type: 'boolean' },
-              include_schema: { type: 'boolean' },
             },
           },
         },
         required: ['serviceName', 'tableName'],
       },
     },
+    {
+      name: 'aggregateTable',
+      description: 'Compute exact count, sum, avg, min or max values over a table, optionally grouped by fields and filtered. Use this instead of queryTable for statistics such as "average salary per department" and cite the returned numbers exactly.',
+      parameters: {
+        type: 'object',
+        properties: {
+          serviceName: {
+            type: 'string',
+            description: 'The name of the service containing the table',
+          },
+          tableName: {
+            type: 'string',
+            description: 'The name of the table to aggregate',
+          },
+          metrics: {
+            type: 'array',
+            description: 'The values to compute, e.g. [{"function": "avg", "field": "salary"}, {"function": "count"}]',
+            items: {
+              type: 'object',
+              properties: {
+                function: {
+                  type: 'string',
+                  enum: ['count', 'sum', 'avg', 'min', 'max'],
+                },
+                field: {
+                  type: 'string',
+                  description: 'The field to aggregate; omit for a row count',
+                },
+              },
+              required: ['function'],
+            },
+          },
+          groupBy: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Fields to group by (e.g., ["dept_no"])',
+          },
+          filter: {
+            type: 'object',
+            description: `Selects the rows to aggregate. ${FILTER_PARAMETER_DESCRIPTION}`,
+          },
+        },
+        required: ['serviceName', 'tableName', 'metrics'],
+      },
+    },
+    {
+      name: 'renderChart',
+      description: 'Show a bar, line, area or pie chart below your answer, drawn from rows already returned by queryTable or aggregateTable in this answer. Use it when the user asks to plot, chart or visualize data, or when a trend or comparison is clearer as a chart, e.g. a line chart of average salary by hire year. Each x value should appear once per series, so group rows with aggregateTable first.',
+      parameters: {
+        type: 'object',
+        properties: {
+          type: {
+            type: 'string',
+            enum: ['bar', 'line', 'area', 'pie'],
+            description: 'line or area for trends over ordered values such as years, bar for comparing categories, pie for parts of a whole',
+          },
+          title: {
+            type: 'string',
+            description: 'A short title, e.g. "Average salary by hire year"',
+          },
+          x: {
+            type: 'string',
+            description: 'The field for the x axis or, for pie charts, the slice labels',
+          },
+          y: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Numeric fields to plot, one series each. For aggregateTable results use the metric labels, e.g. ["avg_salary"]',
+          },
+          series: {
+            type: 'string',
+            description: 'Optional field whose values split a single y field into one series each, e.g. "dept_no"',
+          },
+          tableName: {
+            type: 'string',
+            description: 'The table whose rows to plot, when rows from several tables were fetched',
+          },
+        },
+        required: ['type', 'title', 'x', 'y'],
+      },
+    },
+    {
+      name: 'proposeRecordChange',
+      description: 'Draft a create, update or delete of records in a table. The change is NOT applied: it is shown to the user, who must approve it before it runs. Use getTableSchema first so that field names and primary keys are correct.',
+      parameters: {
+        type: 'object',
+        properties: {
+          serviceName: {
+            type: 'string',
+            description: 'The name of the service containing the table',
+          },
+          tableName: {
+            type: 'string',
+            description: 'The name of the table to change',
+          },
+          operation: {
+            type: 'string',
+            enum: ['create', 'update', 'delete'],
+          },
+          records: {
+            type: 'array',
+            description: 'For create, the new records. For update, each record\'s primary key fields plus the fields to change. For delete, the primary key fields of each record.',
+            items: { type: 'object' },
+          },
+          summary: {
+            type: 'string',
+            description: 'One sentence describing the change for the user, e.g. "Add the title Senior Engineer for employee 10001 from 2024-05-01"',
+          },
+        },
+        required: ['serviceName', 'tableName', 'operation', 'records', 'summary'],
+      },
+    },
     {
       name: 'searchTableByField',
       description: 'Search any table by a specific field value with optional related data',
@@ -138,13 +426,21 @@ export class OpenAIService {
             type: 'string',
             description: 'Comma-separated list of related tables to include',
           },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of rows to return (default 100, max 1000)',
+          },
+          offset: {
+            type: 'number',
+            description: 'Number of rows to skip, for paging through results',
+          },
         },
         required: ['serviceName', 'tableName', 'fieldName', 'value'],
       },
     },
     {
-      name: 'searchByName',
-      description: 'Search for records by name in first name and last name fields with optional related data',
+      name: 'searchEntities',
+      description: 'Find records by a name or title, e.g. a person ("Georgi Facello" or "Facello, Georgi"), a product or a city. Searches the name-like columns of the service\'s tables (or of the given tables), ignoring case and accents, and returns ranked hits with their table and primary key. Use the primary keys to query full records or to tell several matches apart.',
       parameters: {
         type: 'object',
         properties: {
@@ -152,30 +448,21 @@ export class OpenAIService {
             type: 'string',
             description: 'The name of the service (e.g., "sqlserver")',
           },
-          tableName: {
-            type: 'string',
-            description: 'The name of the table (e.g., "Application.Cities")',
-          },
-          name: {
+          term: {
             type: 'string',
             description: 'The name to search for',
           },
-          firstNameField: {
-            type: 'string',
-            description: 'The field name for first name',
-            default: 'first_name',
+          tables: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Only search these tables (e.g., ["employees"]), at most 6 per call. By default the tables with name columns are searched, person tables first.',
           },
-          lastNameField: {
-            type: 'string',
-            description: 'The field name for last name',
-            default: 'last_name',
-          },
-          related: {
-            type: 'string',
-            description: 'Comma-separated list of related tables to include',
+          limit: {
+            type: 'number',
+            description: 'Maximum number of hits to return (default 20)',
           },
         },
-        required: ['serviceName', 'tableName', 'name'],
+        required: ['serviceName', 'term'],
       },
     },
     {
@@ -194,116 +481,314 @@ export class OpenAIService {
     },
   ];
 
-  private convertToChatMessage(msg: ChatMessage): ChatCompletionMessageParam {
-    if (msg.role === 'function') {
-      return {
-        role: msg.role,
-        content: msg.content,
-        name: msg.name || 'unknown',
-      };
+  async summarize(messages: ChatMessage[], previousSummary?: string): Promise<string> {
+    const transcript = messages
+      .map(msg => `${msg.role}${msg.name ? ` (${msg.name})` : ''}: ${msg.content}`)
+      .join('\n');
+
+    const response = await this.provider.complete({
+      messages: [
+        {
+          role: 'system',
+          content: 'Summarize this conversation between a user and a DreamFactory data assistant. Keep the services, tables, fields, relationships, filters and key facts (names, IDs, numbers) needed to answer follow-up questions. Be concise.',
+        },
+        {
+          role: 'user',
+          content: previousSummary
+            ? `Earlier summary:\n${previousSummary}\n\nConversation:\n${transcript}`
+            : transcript,
+        },
+      ],
+    });
+
+    return response.content || previousSummary || '';
+  }
+
+  private async executeFunction(
+    functionName: string,
+    args: any,
+    dreamFactoryTool: DreamFactoryTool = this.dreamFactoryTool,
+    datasets: ChartDataset[] = [],
+    deadline?: number
+  ): Promise<any> {
+    switch (functionName) {
+      case 'webSearch':
+        const searchResults = await this.searchService.search(args.query);
+        return SearchService.summarizeResults(searchResults);
+      case 'listServices':
+        return dreamFactoryTool.listServices();
+      case 'getServiceSchema':
+        return dreamFactoryTool.getServiceSchema(args.serviceName);
+      case 'getTableSchema':
+        return dreamFactoryTool.getTableSchema(args.serviceName, args.tableName);
+      case 'listTables':
+        return dreamFactoryTool.listTables(args.serviceName);
+      case 'findColumns':
+        return dreamFactoryTool.findColumns(args.serviceName, args.query, args.type, args.limit);
+      case 'findJoinPath':
+        return dreamFactoryTool.findJoinPath(args.serviceName, args.fromTable, args.toTable);
+      case 'queryTable':
+        return dreamFactoryTool.queryTablePage(
+          args.serviceName,
+          args.tableName,
+          args.queryParams
+        );
+      case 'aggregateTable':
+        return dreamFactoryTool.aggregateTable(args.serviceName, args.tableName, {
+          metrics: args.metrics,
+          groupBy: args.groupBy,
+          filter: args.filter,
+        }, deadline);
+      case 'proposeRecordChange':
+        return dreamFactoryTool.prepareChange(
+          args.serviceName,
+          args.tableName,
+          args.operation,
+          args.records,
+          args.summary
+        );
+      case 'searchTableByField': {
+        const page = DreamFactoryTool.normalizePage(args);
+        const response = await dreamFactoryTool.searchTableByField(
+          args.serviceName,
+          args.tableName,
+          args.fieldName,
+          args.value,
+          args.exact,
+          args.related,
+          page
+        );
+        return DreamFactoryTool.toResultPage(response, page);
+      }
+      case 'searchEntities':
+        return dreamFactoryTool.searchEntities(args.serviceName, args.term, args.tables, args.limit);
+      case 'renderChart':
+        return ChartBuilder.build(args, datasets);
+      default:
+        throw new Error(`Unknown function: ${functionName}`);
+    }
+  }
+
+  // Requests the next model turn, streaming answer tokens when requested
+  private createCompletion(
+    messages: ChatMessage[],
+    onEvent?: (event: ChatStreamEvent) => void,
+    toolChoice: 'auto' | 'none' = 'auto'
+  ) {
+    return this.provider.complete({
+      messages,
+      tools: this.functions,
+      toolChoice,
+      onToken: onEvent && (content => onEvent({ type: 'token', content })),
+    });
+  }
+
+  // Runs one tool call, recording it as a trace step and reporting its
+  // progress. Failures are returned to the model so that it can correct the
+  // call or try another approach; only an expired session ends the answer.
+  // Tools that page through rows stop at `deadline`, the end of the budget.
+  private async runToolCall(
+    call: ChatToolCall,
+    args: Record<string, any>,
+    trace: TraceStep[],
+    datasets: ChartDataset[],
+    deadline: number,
+    onEvent?: (event: ChatStreamEvent) => void
+  ): Promise<any> {
+    const step: TraceStep = { id: call.id, tool: call.name, args, requests: [], durationMs: 0, preview: '' };
+    trace.push(step);
+    onEvent?.({ type: 'tool_start', id: call.id, name: call.name, args });
+
+    const dreamFactoryTool = this.dreamFactoryTool.withRequestLogger(request => {
+      step.requests.push(request);
+      if (!request.cached) {
+        onEvent?.({ type: 'endpoint', url: request.url });
+      }
+    });
+    const startedAt = Date.now();
+
+    try {
+      const result = await this.executeFunction(call.name, args, dreamFactoryTool, datasets, deadline);
+      step.durationMs = Date.now() - startedAt;
+      step.rowCount = countRows(result);
+      step.preview = previewResult(result);
+      onEvent?.({ type: 'tool_end', id: call.id, name: call.name, step });
+      return result;
+    } catch (error) {
+      step.durationMs = Date.now() - startedAt;
+      step.error = error instanceof Error ? error.message : 'Unknown error';
+      onEvent?.({ type: 'tool_end', id: call.id, name: call.name, error: step.error, step });
+
+      if (error instanceof SessionExpiredError) throw error;
+
+      // Permission errors say which resource to avoid
+      if (error instanceof AccessDeniedError) {
+        return {
+          error: 'access_denied',
+          resource: error.resource,
+          message: `${error.message}. The current role cannot access ${error.resource}; do not retry it.`,
+        };
+      }
+      return { error: step.error };
+    }
+  }
+
+  // Called when the tool loop runs out of budget: asks the model for an answer
+  // based on the tool results gathered so far, without further tool calls
+  private async answerWithPartialResults(
+    messages: ChatMessage[],
+    steps: number,
+    reason: string,
+    onEvent?: (event: ChatStreamEvent) => void
+  ): Promise<string> {
+    const intro = `I stopped after ${steps} steps (${reason}), here is what I found:\n\n`;
+    onEvent?.({ type: 'token', content: intro });
+
+    try {
+      const message = await this.createCompletion(
+        [
+          ...messages,
+          {
+            role: 'system',
+            content: 'The tool budget for this question is exhausted. Do not request any more tools. Answer using only the results gathered so far and state clearly what could not be determined.',
+          },
+        ],
+        onEvent,
+        'none'
+      );
+      return intro + (message.content || 'No response generated');
+    } catch (error) {
+      console.error('Failed to generate partial answer:', error);
+      const fallback = 'I was not able to summarize the results gathered so far. Please try a more specific question.';
+      onEvent?.({ type: 'token', content: fallback });
+      return intro + fallback;
     }
-    return {
-      role: msg.role,
-      content: msg.content,
-    };
   }
 
-  async chat(messages: ChatMessage[]): Promise<{ response: string; endpoints: string[] }> {
+  async chat(
+    messages: ChatMessage[],
+    onEvent?: (event: ChatStreamEvent) => void
+  ): Promise<ChatLoopResult> {
+    const { maxIterations, timeBudgetMs, maxRepeatedCalls } = this.toolLoopOptions;
+    const startedAt = Date.now();
+    const trace: TraceStep[] = [];
+    const changes: RecordChange[] = [];
+    let table: ResultTable | undefined;
+    // Rows fetched so far that charts can be drawn from
+    const datasets: ChartDataset[] = [];
+    const charts: ChartData[] = [];
+    const seenCalls = new Set<string>();
+    let repeatedCalls = 0;
+    let steps = 0;
+    let stopReason: string;
+
     try {
       // Clear previous endpoints at the start of each chat
       this.dreamFactoryTool.clearRequestedEndpoints();
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4-0125-preview',
-        messages: messages.map(this.convertToChatMessage),
-        functions: this.functions,
-        function_call: 'auto',
-      });
-
-      const message = response.choices[0].message;
-
-      if (message.function_call) {
-        const functionName = message.function_call.name;
-        const args = JSON.parse(message.function_call.arguments);
-
-        let functionResult;
-        try {
-          switch (functionName) {
-            case 'webSearch':
-              const searchResults = await this.searchService.search(args.query);
-              functionResult = SearchService.summarizeResults(searchResults);
-              break;
-            case 'listServices':
-              functionResult = await this.dreamFactoryTool.listServices();
-              break;
-            case 'getServiceSchema':
-              functionResult = await this.dreamFactoryTool.getServiceSchema(args.serviceName);
-              break;
-            case 'getTableSchema':
-              functionResult = await this.dreamFactoryTool.getTableSchema(args.serviceName, args.tableName);
-              break;
-            case 'listTables':
-              functionResult = await this.dreamFactoryTool.listTables(args.serviceName);
-              break;
-            case 'queryTable':
-              functionResult = await this.dreamFactoryTool.queryTable(
-                args.serviceName,
-                args.tableName,
-                args.queryParams
-              );
-              break;
-            case 'searchTableByField':
-              functionResult = await this.dreamFactoryTool.searchTableByField(
-                args.serviceName,
-                args.tableName,
-                args.fieldName,
-                args.value,
-                args.exact,
-                args.related
-              );
-              break;
-            case 'searchByName':
-              functionResult = await this.dreamFactoryTool.searchByName(
-                args.serviceName,
-                args.tableName,
-                args.name,
-                args.firstNameField,
-                args.lastNameField,
-                args.related
-              );
-              break;
-            default:
-              throw new Error(`Unknown function: ${functionName}`);
-          }
-        } catch (error) {
-          // Preserve DreamFactory error structure
-          if (error instanceof Error && error.message.includes('403') && error.message.includes('Access Forbidden')) {
-            const dfError = new Error(error.message);
-            dfError.name = 'DreamFactoryError';
-            throw dfError;
-          }
-          throw error;
+      while (true) {
+        if (steps >= maxIterations) {
+          stopReason = `reached the limit of ${maxIterations} tool steps`;
+          break;
         }
+        if (Date.now() - startedAt > timeBudgetMs) {
+          stopReason = `ran out of the ${Math.round(timeBudgetMs / 1000)}s time budget`;
+          break;
+        }
+
+        const message = await this.createCompletion(messages, onEvent);
+
+        if (message.toolCalls.length === 0) {
+          return {
+            response: message.content || 'No response generated',
+            endpoints: this.dreamFactoryTool.getRequestedEndpoints(),
+            trace,
+            changes,
+            table,
+            charts,
+          };
+        }
+
+        steps++;
+
+        // The model may request several calls in one turn; run them concurrently.
+        // Calls identical to an earlier one, or with arguments that aren't
+        // valid JSON, are answered with a notice instead.
+        const parsedArgs = message.toolCalls.map(parseArguments);
+        const results = await Promise.all(
+          message.toolCalls.map((call, index) => {
+            const { args, error: argumentsError } = parsedArgs[index];
+            const key = toolCallKey(call);
+            const error = argumentsError || (seenCalls.has(key)
+              ? `${call.name} was already called with these exact arguments. Use the earlier result or try a different approach.`
+              : undefined);
+            if (error) {
+              if (!argumentsError) repeatedCalls++;
+              trace.push({ id: call.id, tool: call.name, args, requests: [], durationMs: 0, preview: '', error });
+              return { error };
+            }
+            seenCalls.add(key);
+            return this.runToolCall(call, args, trace, datasets, startedAt + timeBudgetMs, onEvent);
+          })
+        );
 
         messages.push({
           role: 'assistant',
           content: message.content || '',
+          toolCalls: message.toolCalls,
         });
-        messages.push({
-          role: 'function',
-          content: JSON.stringify(functionResult),
-          name: functionName,
+        message.toolCalls.forEach((call, index) => {
+          let result = results[index];
+          const { args } = parsedArgs[index];
+          table = toResultTable(call, args, result) || table;
+
+          const dataset = ChartBuilder.toDataset(call.name, args, result);
+          if (dataset) datasets.push(dataset);
+
+          // Drafted writes are held for the user's approval
+          if (call.name === 'proposeRecordChange' && result?.status === 'pending') {
+            changes.push(result);
+            result = {
+              changeId: result.id,
+              status: 'awaiting_confirmation',
+              before: result.before,
+              note: 'The change has NOT been applied. The user must approve it in the confirmation card shown with your answer. Describe the proposed change and ask them to review it.',
+            };
+          }
+
+          // Charts are drawn by the client; the model only learns they are shown
+          if (call.name === 'renderChart' && Array.isArray(result?.rows)) {
+            charts.push(result);
+            result = {
+              status: 'rendered',
+              title: result.title,
+              points: result.rows.length,
+              series: result.series.map((series: { label: string }) => series.label),
+              note: `${result.note ? `${result.note} ` : ''}The chart is shown below your answer. Describe what it shows instead of listing every value.`,
+            };
+          }
+
+          messages.push({
+            role: 'tool',
+            content: JSON.stringify(result),
+            name: call.name,
+            toolCallId: call.id,
+          });
         });
 
-        return this.chat(messages);
+        if (repeatedCalls > maxRepeatedCalls) {
+          stopReason = 'kept repeating identical tool calls';
+          break;
+        }
       }
 
-      // Get the endpoints that were called
-      const endpoints = this.dreamFactoryTool.getRequestedEndpoints();
-
       return {
-        response: message.content || 'No response generated',
-        endpoints
+        response: await this.answerWithPartialResults(messages, steps, stopReason, onEvent),
+        endpoints: this.dreamFactoryTool.getRequestedEndpoints(),
+        trace,
+        changes,
+        table,
+        charts,
       };
     } catch (error) {
       // Preserve DreamFactory error structure when rethrowing
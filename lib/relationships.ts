@@ -0,0 +1,193 @@
+import { isUnavailableResource, type DreamFactoryTool } from './dreamfactory';
+import { JoinPath, RelationshipEdge, RelationshipType } from './types';
+import { mapWithConcurrency } from './utils';
+
+// Tables whose schemas are read to build a service's graph
+const MAX_GRAPH_TABLES = 200;
+const SCHEMA_FETCH_CONCURRENCY = 4;
+
+const RELATIONSHIP_TYPES: RelationshipType[] = ['belongs_to', 'has_one', 'has_many', 'many_many'];
+
+// The serializable form of a graph, as cached with the service's schemas
+export interface RelationshipGraphData {
+  tables: string[];
+  edges: RelationshipEdge[];
+  // Tables past MAX_GRAPH_TABLES, whose own relationships were not read
+  unreadTables?: string[];
+}
+
+// Reads the relationships DreamFactory reports for a table, plus foreign keys
+// it did not turn into a relationship (named the way DreamFactory names them)
+function edgesFromSchema(tableName: string, schema: any): RelationshipEdge[] {
+  const edges: RelationshipEdge[] = [];
+
+  for (const relation of schema.related || []) {
+    // Entries that are only names carry no target table
+    if (typeof relation !== 'object' || !relation?.name || !relation.ref_table) continue;
+    // `related` only expands relationships within the same service
+    if (relation.ref_service_id !== undefined && relation.service_id !== undefined &&
+        relation.ref_service_id !== relation.service_id) continue;
+
+    edges.push({
+      from: tableName,
+      to: relation.ref_table,
+      relationship: relation.name,
+      type: RELATIONSHIP_TYPES.includes(relation.type) ? relation.type : 'has_many',
+      via: relation.junction_table || undefined,
+    });
+  }
+
+  for (const field of schema.field || schema.fields || []) {
+    if (!field.is_foreign_key || !field.ref_table) continue;
+    const relationship = `${field.ref_table}_by_${field.name}`;
+    if (!edges.some(edge => edge.relationship === relationship)) {
+      edges.push({ from: tableName, to: field.ref_table, relationship, type: 'belongs_to' });
+    }
+  }
+
+  return edges;
+}
+
+// Tables of one service connected by their DreamFactory relationships
+export class RelationshipGraph {
+  private tables = new Map<string, string>();
+  private adjacency = new Map<string, RelationshipEdge[]>();
+  private unreadTables: Set<string>;
+
+  constructor(data: RelationshipGraphData) {
+    this.unreadTables = new Set((data.unreadTables || []).map(table => table.toLowerCase()));
+    for (const table of data.tables) {
+      this.tables.set(table.toLowerCase(), table);
+    }
+    for (const edge of data.edges) {
+      const key = edge.from.toLowerCase();
+      this.adjacency.set(key, [...(this.adjacency.get(key) || []), edge]);
+    }
+  }
+
+  // Reads the schema of every table the role can see, up to
+  // MAX_GRAPH_TABLES. Relationships to tables the role can't see are dropped.
+  // Failures other than a table becoming unavailable fail the graph, so that
+  // an incomplete one is not cached.
+  static async collect(dreamFactoryTool: DreamFactoryTool, serviceName: string): Promise<RelationshipGraphData> {
+    const tables = await dreamFactoryTool.listTables(serviceName);
+    const visible = new Set(tables.map(table => table.toLowerCase()));
+
+    const edges = await mapWithConcurrency(tables.slice(0, MAX_GRAPH_TABLES), SCHEMA_FETCH_CONCURRENCY, async table => {
+      try {
+        return edgesFromSchema(table, await dreamFactoryTool.getTableSchema(serviceName, table));
+      } catch (error) {
+        if (!isUnavailableResource(error)) throw error;
+        return [];
+      }
+    });
+
+    return {
+      tables,
+      edges: edges.flat().filter(edge => visible.has(edge.to.toLowerCase())),
+      ...(tables.length > MAX_GRAPH_TABLES && { unreadTables: tables.slice(MAX_GRAPH_TABLES) }),
+    };
+  }
+
+  // The graph of a single table, from its own schema
+  static fromTableSchema(tableName: string, schema: any): RelationshipGraph {
+    return new RelationshipGraph({ tables: [tableName], edges: edgesFromSchema(tableName, schema) });
+  }
+
+  // Whether the table is past MAX_GRAPH_TABLES, so its relationships are missing
+  isUnread(table: string): boolean {
+    return this.unreadTables.has(table.toLowerCase());
+  }
+
+  private get partialNote(): string {
+    return ` Only the relationships of the first ${this.tables.size - this.unreadTables.size} of the service's ` +
+      `${this.tables.size} tables were read, so look for others in the table schemas with getTableSchema.`;
+  }
+
+  // Target and junction tables of the named relationships of a table. `*`,
+  // or a name the graph does not know, stands for every relationship.
+  relatedTables(table: string, related: string): string[] {
+    const edges = this.adjacency.get(table.toLowerCase()) || [];
+    const names = related.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+    const known = new Set(edges.map(edge => edge.relationship.toLowerCase()));
+
+    const selected = names.some(name => name === '*' || !known.has(name))
+      ? edges
+      : edges.filter(edge => names.includes(edge.relationship.toLowerCase()));
+    return Array.from(new Set(selected.flatMap(edge => (edge.via ? [edge.to, edge.via] : [edge.to]))));
+  }
+
+  // Shortest chain of relationships from one table to another. A many_many
+  // relationship crosses its junction table in a single step.
+  findPath(fromTable: string, toTable: string): JoinPath {
+    const from = this.tables.get(fromTable.toLowerCase());
+    const to = this.tables.get(toTable.toLowerCase());
+
+    if (!from || !to) {
+      const unknown = [!from && fromTable, !to && toTable].filter(Boolean).join(' and ');
+      return {
+        fromTable,
+        toTable,
+        steps: [],
+        note: `Unknown table ${unknown}. Check the names with listTables.`,
+      };
+    }
+
+    if (from === to) {
+      return { fromTable: from, toTable: to, steps: [], note: 'Both names refer to the same table; no join is needed.' };
+    }
+
+    // Breadth-first search, remembering the edge that reached each table
+    const reachedBy = new Map<string, RelationshipEdge | null>([[from.toLowerCase(), null]]);
+    const queue = [from.toLowerCase()];
+
+    while (queue.length > 0 && !reachedBy.has(to.toLowerCase())) {
+      const current = queue.shift()!;
+      for (const edge of this.adjacency.get(current) || []) {
+        const next = edge.to.toLowerCase();
+        if (!reachedBy.has(next)) {
+          reachedBy.set(next, edge);
+          queue.push(next);
+        }
+      }
+    }
+
+    const partial = this.unreadTables.size > 0 ? { partial: true } : {};
+    const partialNote = this.unreadTables.size > 0 ? this.partialNote : '';
+
+    if (!reachedBy.has(to.toLowerCase())) {
+      return {
+        fromTable: from,
+        toTable: to,
+        steps: [],
+        ...partial,
+        note: `No relationship path connects ${from} to ${to}. Join them on matching field values with separate queries.${partialNote}`,
+      };
+    }
+
+    const steps: RelationshipEdge[] = [];
+    for (let edge = reachedBy.get(to.toLowerCase()); edge; edge = reachedBy.get(edge.from.toLowerCase())) {
+      steps.unshift(edge);
+    }
+
+    if (steps.length === 1) {
+      return {
+        fromTable: from,
+        toTable: to,
+        steps,
+        related: steps[0].relationship,
+        note: `Query ${from} with related="${steps[0].relationship}" to include the matching ${to} records.`,
+      };
+    }
+
+    return {
+      fromTable: from,
+      toTable: to,
+      steps,
+      ...partial,
+      note:
+        `No single relationship connects ${from} to ${to}. Query ${from} with related="${steps[0].relationship}", ` +
+        `then query each next table with the relationship of its step, filtered on the key values from the previous step.${partialNote}`,
+    };
+  }
+}
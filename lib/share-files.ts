@@ -0,0 +1,30 @@
+// Node.js only: imported by getShareBackend when CONVERSATION_STORE=file and
+// the route runs on Node, so that edge bundles never include fs
+import path from 'path';
+import { Share, ShareSummary } from './types';
+import { ShareBackend, byNewest, isListed, toSummary } from './shares';
+import { readJsonFile, readJsonFiles, writeJsonFile } from './json-files';
+
+// One JSON file per share, for local development
+export class FileShareBackend implements ShareBackend {
+  constructor(private directory: string = path.join(process.cwd(), '.data', 'shares')) {}
+
+  private filePath(id: string): string {
+    return path.join(this.directory, `${encodeURIComponent(id)}.json`);
+  }
+
+  get(id: string): Promise<Share | undefined> {
+    return readJsonFile<Share>(this.filePath(id));
+  }
+
+  async list(ownerId: string, conversationId?: string): Promise<ShareSummary[]> {
+    return (await readJsonFiles<Share>(this.directory))
+      .filter(share => isListed(share, ownerId, conversationId))
+      .map(toSummary)
+      .sort(byNewest);
+  }
+
+  put(share: Share): Promise<void> {
+    return writeJsonFile(this.filePath(share.id), share);
+  }
+}
@@ -0,0 +1,272 @@
+import { Conversation, Share, ShareSummary, TranscriptEntry } from './types';
+import { DreamFactoryTool } from './dreamfactory';
+import { selectedStore } from './conversations';
+import { loadOnNode, processSingleton } from './stores';
+
+export const DEFAULT_SHARE_DAYS = 7;
+export const MAX_SHARE_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Where share links are kept. Shares are read by id by any user, so only
+// listing is scoped to the owner.
+export interface ShareBackend {
+  get(id: string): Promise<Share | undefined>;
+  // Newest first, optionally only those of one conversation
+  list(ownerId: string, conversationId?: string): Promise<ShareSummary[]>;
+  put(share: Share): Promise<void>;
+}
+
+export function toSummary(share: Share): ShareSummary {
+  const { ownerId, entries, ...summary } = share;
+  return summary;
+}
+
+export function byNewest(a: ShareSummary, b: ShareSummary): number {
+  return b.createdAt.localeCompare(a.createdAt);
+}
+
+export function isListed(share: Share, ownerId: string, conversationId?: string): boolean {
+  return share.ownerId === ownerId && (!conversationId || share.conversationId === conversationId);
+}
+
+// Held by the current server instance and lost on restart
+export class MemoryShareBackend implements ShareBackend {
+  private shares = new Map<string, Share>();
+
+  async get(id: string): Promise<Share | undefined> {
+    return this.shares.get(id);
+  }
+
+  async list(ownerId: string, conversationId?: string): Promise<ShareSummary[]> {
+    return Array.from(this.shares.values())
+      .filter(share => isListed(share, ownerId, conversationId))
+      .map(toSummary)
+      .sort(byNewest);
+  }
+
+  async put(share: Share): Promise<void> {
+    this.shares.set(share.id, share);
+  }
+}
+
+// Row of the shares table. `resources` is a comma-separated list and `data`
+// holds the entries as JSON.
+interface ShareRecord {
+  id: string;
+  owner_id: string;
+  conversation_id: string;
+  message_id: string | null;
+  title: string;
+  resources: string;
+  data?: string;
+  created_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+function fromRecord(record: ShareRecord): ShareSummary {
+  return {
+    id: record.id,
+    conversationId: record.conversation_id,
+    messageId: record.message_id || undefined,
+    title: record.title,
+    resources: record.resources ? record.resources.split(',') : [],
+    createdAt: record.created_at,
+    expiresAt: record.expires_at,
+    revokedAt: record.revoked_at || undefined,
+  };
+}
+
+// A table in a DreamFactory database service with the columns of
+// ShareRecord (id as a string primary key, resources and data as text).
+// Requests must not use the signed-in user's session: a role that could read
+// the table could read every snapshot without the checks of ShareStore.canView.
+// Pass a tool with a server-side app key whose role alone can use the table.
+export class DreamFactoryShareBackend implements ShareBackend {
+  constructor(
+    private dreamFactoryTool: DreamFactoryTool,
+    private serviceName: string,
+    private tableName: string
+  ) {}
+
+  async get(id: string): Promise<Share | undefined> {
+    const response = await this.dreamFactoryTool.queryTable<ShareRecord>(this.serviceName, this.tableName, {
+      filter: await this.dreamFactoryTool.compileServiceFilter(this.serviceName, { op: 'eq', field: 'id', value: id }),
+      limit: 1,
+    });
+    const [record] = response.resource || [];
+    if (!record) return undefined;
+
+    return {
+      ...fromRecord(record),
+      ownerId: record.owner_id,
+      entries: JSON.parse(record.data || '[]'),
+    };
+  }
+
+  async list(ownerId: string, conversationId?: string): Promise<ShareSummary[]> {
+    const response = await this.dreamFactoryTool.queryTable<ShareRecord>(this.serviceName, this.tableName, {
+      filter: await this.dreamFactoryTool.compileServiceFilter(this.serviceName, {
+        op: 'and',
+        conditions: [
+          { op: 'eq', field: 'owner_id', value: ownerId },
+          ...(conversationId ? [{ op: 'eq' as const, field: 'conversation_id', value: conversationId }] : []),
+        ],
+      }),
+      fields: ['id', 'conversation_id', 'message_id', 'title', 'resources', 'created_at', 'expires_at', 'revoked_at'],
+      order: 'created_at DESC',
+    });
+    return (response.resource || []).map(fromRecord);
+  }
+
+  async put(share: Share): Promise<void> {
+    const record: ShareRecord = {
+      id: share.id,
+      owner_id: share.ownerId,
+      conversation_id: share.conversationId,
+      message_id: share.messageId || null,
+      title: share.title,
+      resources: share.resources.join(','),
+      data: JSON.stringify(share.entries),
+      created_at: share.createdAt,
+      expires_at: share.expiresAt,
+      revoked_at: share.revokedAt || null,
+    };
+
+    const exists = Boolean(await this.get(share.id));
+    await this.dreamFactoryTool.writeRecords(this.serviceName, this.tableName, exists ? 'update' : 'create', [record]);
+  }
+}
+
+// The file backend, imported on first use (see loadOnNode)
+class LazyFileShareBackend implements ShareBackend {
+  private load: () => Promise<ShareBackend>;
+
+  constructor(directory?: string) {
+    this.load = loadOnNode(() => import('./share-files').then(({ FileShareBackend }) => new FileShareBackend(directory)));
+  }
+
+  async get(id: string): Promise<Share | undefined> {
+    return (await this.load()).get(id);
+  }
+
+  async list(ownerId: string, conversationId?: string): Promise<ShareSummary[]> {
+    return (await this.load()).list(ownerId, conversationId);
+  }
+
+  async put(share: Share): Promise<void> {
+    return (await this.load()).put(share);
+  }
+}
+
+// Kept in the same kind of store as conversations (see selectedStore):
+// `file` writes under SHARE_STORE_DIR (default .data/shares), and
+// `dreamfactory` uses the SHARE_STORE_TABLE table (default df_chat_shares)
+// of the CONVERSATION_STORE_SERVICE database service with the app key
+// SHARE_STORE_API_KEY. Only that key's role should have access to the table.
+// The memory and file stores are only shared by routes on the Node.js runtime.
+export function getShareBackend(): ShareBackend {
+  return processSingleton<ShareBackend>('shareBackend', () => {
+    switch (selectedStore()) {
+      case 'dreamfactory':
+        if (!process.env.CONVERSATION_STORE_SERVICE || !process.env.SHARE_STORE_API_KEY) {
+          throw new Error('CONVERSATION_STORE=dreamfactory requires CONVERSATION_STORE_SERVICE and SHARE_STORE_API_KEY');
+        }
+        return new DreamFactoryShareBackend(
+          new DreamFactoryTool(process.env.DREAMFACTORY_URL || 'http://localhost:8080', undefined, process.env.SHARE_STORE_API_KEY),
+          process.env.CONVERSATION_STORE_SERVICE,
+          process.env.SHARE_STORE_TABLE || 'df_chat_shares'
+        );
+      case 'file':
+        return new LazyFileShareBackend(process.env.SHARE_STORE_DIR);
+      default:
+        return new MemoryShareBackend();
+    }
+  });
+}
+
+// The share links one DreamFactory user has created, and opening links
+// created by anyone
+export class ShareStore {
+  constructor(
+    private userId: string,
+    private backend: ShareBackend = getShareBackend()
+  ) {}
+
+  // Snapshots the whole conversation, or a single answer with the question
+  // before it. Returns undefined when the answer is not in the conversation.
+  async create(
+    conversation: Conversation,
+    options: { messageId?: string; expiresInDays: number }
+  ): Promise<Share | undefined> {
+    const entries = ShareStore.selectEntries(conversation.transcript, options.messageId);
+    if (!entries) return undefined;
+
+    const now = new Date();
+    const share: Share = {
+      id: crypto.randomUUID(),
+      ownerId: this.userId,
+      conversationId: conversation.id,
+      messageId: options.messageId,
+      title: (options.messageId && entries[0].role === 'user' ? entries[0].content : conversation.title) || 'Shared answer',
+      entries: entries.map(ShareStore.snapshotEntry),
+      resources: ShareStore.collectResources(entries),
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + options.expiresInDays * DAY_MS).toISOString(),
+    };
+    await this.backend.put(share);
+    return share;
+  }
+
+  get(id: string): Promise<Share | undefined> {
+    return this.backend.get(id);
+  }
+
+  list(conversationId?: string): Promise<ShareSummary[]> {
+    return this.backend.list(this.userId, conversationId);
+  }
+
+  // Only the owner can revoke a link. Revoking twice keeps the first time.
+  async revoke(id: string): Promise<ShareSummary | undefined> {
+    const share = await this.get(id);
+    if (!share || share.ownerId !== this.userId) return undefined;
+
+    if (!share.revokedAt) {
+      share.revokedAt = new Date().toISOString();
+      await this.backend.put(share);
+    }
+    return toSummary(share);
+  }
+
+  // The owner can always view; others need access to every service and table
+  // the snapshot was read from
+  async canView(share: Share, dreamFactoryTool: DreamFactoryTool): Promise<boolean> {
+    return share.ownerId === this.userId || dreamFactoryTool.canAccess(share.resources);
+  }
+
+  static status(share: ShareSummary, now = new Date()): 'active' | 'expired' | 'revoked' {
+    if (share.revokedAt) return 'revoked';
+    return new Date(share.expiresAt) <= now ? 'expired' : 'active';
+  }
+
+  private static selectEntries(transcript: TranscriptEntry[], messageId?: string): TranscriptEntry[] | undefined {
+    if (!messageId) return transcript.length > 0 ? transcript : undefined;
+
+    const index = transcript.findIndex(entry => entry.id === messageId && entry.role === 'assistant');
+    if (index < 0) return undefined;
+    return index > 0 && transcript[index - 1].role === 'user' ? transcript.slice(index - 1, index + 1) : [transcript[index]];
+  }
+
+  // Proposed changes and the model's reasoning stay private to the owner
+  private static snapshotEntry({ changes, thinking, resources, ...entry }: TranscriptEntry): TranscriptEntry {
+    return entry;
+  }
+
+  // The services and tables the answers were read from, as recorded when
+  // they were given. Answers recorded without them add nothing, which leaves
+  // the snapshot to its owner.
+  static collectResources(entries: TranscriptEntry[]): string[] {
+    return Array.from(new Set(entries.flatMap(entry => entry.resources || []))).sort();
+  }
+}
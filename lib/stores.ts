@@ -0,0 +1,26 @@
+// Helpers for the conversation and share stores
+
+// Node.js routes may be bundled separately, each with its own copy of a
+// module, so stores shared by the whole process are kept on globalThis
+const processState = globalThis as typeof globalThis & { dfChatStores?: Map<string, unknown> };
+
+export function processSingleton<T>(key: string, create: () => T): T {
+  processState.dfChatStores ??= new Map();
+  if (!processState.dfChatStores.has(key)) processState.dfChatStores.set(key, create());
+  return processState.dfChatStores.get(key) as T;
+}
+
+// Imports a file store on first use. The import is only compiled into
+// Node.js bundles, since edge functions have no file system; the importer
+// must call import() itself so that bundlers see the module name.
+export function loadOnNode<T>(importStore: () => Promise<T>): () => Promise<T> {
+  let store: Promise<T> | undefined;
+  return () => {
+    if (!store) {
+      store = process.env.NEXT_RUNTIME === 'nodejs'
+        ? importStore()
+        : Promise.reject(new Error('CONVERSATION_STORE=file needs the Node.js runtime; use CONVERSATION_STORE=dreamfactory'));
+    }
+    return store;
+  };
+}
@@ -0,0 +1,77 @@
+// Sorting, filtering and paging of the rows DataTable shows
+
+export const TABLE_PAGE_SIZE = 10;
+
+export interface SortState {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+export function formatCell(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function isEmptyCell(value: any): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+// Numbers compare by value and text naturally ("item 2" before "item 10").
+// Empty cells come last in either direction.
+function compareCells(a: any, b: any, direction: SortState['direction']): number {
+  if (isEmptyCell(a) || isEmptyCell(b)) return Number(isEmptyCell(a)) - Number(isEmptyCell(b));
+  const order = typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : formatCell(a).localeCompare(formatCell(b), undefined, { numeric: true, sensitivity: 'base' });
+  return direction === 'asc' ? order : -order;
+}
+
+// The rows with any of `columns` containing `query`, ignoring case, in
+// `sort` order
+export function filterAndSortRows(
+  rows: Record<string, any>[],
+  columns: string[],
+  query: string,
+  sort: SortState | null
+): Record<string, any>[] {
+  const needle = query.trim().toLowerCase();
+  const filtered = needle
+    ? rows.filter((row) => columns.some((column) => formatCell(row[column]).toLowerCase().includes(needle)))
+    : rows;
+
+  if (!sort) return filtered;
+  return [...filtered].sort((a, b) => compareCells(a[sort.column], b[sort.column], sort.direction));
+}
+
+// Cycles a column through ascending, descending and unsorted
+export function nextSort(previous: SortState | null, column: string): SortState | null {
+  if (previous?.column !== column) return { column, direction: 'asc' };
+  return previous.direction === 'asc' ? { column, direction: 'desc' } : null;
+}
+
+// The rows of `page`, moved back to the last page when the rows no longer
+// reach it
+export function pageOf<T>(rows: T[], page: number): { rows: T[]; currentPage: number; pageCount: number } {
+  const pageCount = Math.max(1, Math.ceil(rows.length / TABLE_PAGE_SIZE));
+  const currentPage = Math.min(Math.max(page, 1), pageCount);
+  return {
+    rows: rows.slice((currentPage - 1) * TABLE_PAGE_SIZE, currentPage * TABLE_PAGE_SIZE),
+    currentPage,
+    pageCount,
+  };
+}
+
+// Page numbers to show: the first, the last and those around the current
+// page, with null marking a gap
+export function visiblePages(current: number, count: number): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let page = 1; page <= count; page++) {
+    if (page === 1 || page === count || Math.abs(page - current) <= 1) {
+      pages.push(page);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
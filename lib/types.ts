@@ -1,8 +1,34 @@
+import type { FilterNode } from './filters';
+
 export interface DreamFactorySession {
   apiKey: string;
   sessionId: string;
 }
 
+// A way of logging in offered by DreamFactory: the default user/password
+// login, an LDAP/Active Directory service or an OAuth provider
+export interface LoginService {
+  name: string;
+  label: string;
+  type: 'password' | 'ldap' | 'oauth';
+}
+
+export interface LoginOptions {
+  // Whether the default login asks for an email address or a username
+  loginAttribute: 'email' | 'username';
+  services: LoginService[];
+}
+
+// The logged-in DreamFactory user, as returned to the browser
+export interface SessionUser {
+  id: number;
+  email: string;
+  name: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  role: string | null;
+}
+
 export interface DreamFactoryService {
   id: number;
   name: string;
@@ -67,6 +93,104 @@ export interface DreamFactoryTableResponse<T = any> {
   };
 }
 
+// Compact page of query results returned to the model
+export interface QueryResultPage<T = any> {
+  total?: number;
+  offset: number;
+  limit: number;
+  returned: number;
+  columns: string[];
+  records: T[];
+  truncated: boolean;
+  nextOffset?: number;
+  note: string;
+}
+
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+export interface AggregateMetric {
+  function: AggregateFunction;
+  // Omitted for count(*)
+  field?: string;
+}
+
+export interface AggregateParams {
+  metrics: AggregateMetric[];
+  groupBy?: string[];
+  filter?: FilterNode;
+}
+
+export interface AggregateGroup {
+  group: Record<string, any>;
+  // Keyed by metric label, e.g. "avg_salary" or "count_all"
+  values: Record<string, number | string | null>;
+}
+
+export interface AggregateResult {
+  // 'server' when DreamFactory grouped the rows, 'client' when computed from fetched rows
+  method: 'server' | 'client';
+  groups: AggregateGroup[];
+  rowsScanned?: number;
+  total?: number;
+  // Set when only part of the matching rows could be scanned
+  partial?: boolean;
+  note: string;
+}
+
+export type RelationshipType = 'belongs_to' | 'has_one' | 'has_many' | 'many_many';
+
+// A DreamFactory relationship from one table to another in the same service
+export interface RelationshipEdge {
+  from: string;
+  to: string;
+  // The name to pass as `related` when querying `from`
+  relationship: string;
+  type: RelationshipType;
+  // Junction table of a many_many relationship
+  via?: string;
+}
+
+export interface JoinPath {
+  fromTable: string;
+  toTable: string;
+  steps: RelationshipEdge[];
+  // Set when one query on `fromTable` reaches `toTable`
+  related?: string;
+  // Set when the service has more tables than its graph reads, so a shorter
+  // path, or any path, may go through the tables left out
+  partial?: boolean;
+  note: string;
+}
+
+// A column found by the column index, scored from 0 to 1
+export interface ColumnMatch {
+  table: string;
+  column: string;
+  label?: string;
+  type: string;
+  score: number;
+  matchedOn: 'name' | 'label';
+}
+
+// A record found by entity search, identified by its table and primary key
+export interface EntityHit {
+  table: string;
+  primaryKey: Record<string, any>;
+  // Values of the searched columns, e.g. { first_name: 'Georgi', last_name: 'Facello' }
+  matched: Record<string, any>;
+  // 1 for an exact match of every search term
+  score: number;
+}
+
+export interface EntitySearchResult {
+  term: string;
+  hits: EntityHit[];
+  exactMatches: number;
+  // Searched columns by table
+  searched: Record<string, string[]>;
+  note: string;
+}
+
 // Common table types for the MySQL service
 export interface Employee {
   emp_no: number;
@@ -110,13 +234,208 @@ export interface Title {
   to_date: string;
 }
 
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
 export interface ChatMessage {
-  role: 'user' | 'assistant' | 'system' | 'function';
+  role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
+  // Tool name, kept on tool results for summaries and traces
   name?: string;
+  // Calls requested by an assistant turn
+  toolCalls?: ChatToolCall[];
+  // The call a tool result answers
+  toolCallId?: string;
 }
 
+export type RecordChangeOperation = 'create' | 'update' | 'delete';
+
+// A write drafted by the model that only runs once the user approves it
+export interface RecordChange {
+  id: string;
+  serviceName: string;
+  tableName: string;
+  operation: RecordChangeOperation;
+  // Primary key fields identifying records for updates and deletes
+  keyFields: string[];
+  // New records, or key values plus changed fields, or keys to delete
+  records: Record<string, any>[];
+  // Current state of the affected records for updates and deletes
+  before?: Record<string, any>[];
+  summary: string;
+  // `applying` while an approved change is being written. Failed changes
+  // can be approved again.
+  status: 'pending' | 'applying' | 'applied' | 'rejected' | 'failed';
+  // When the change was claimed for applying
+  applyingSince?: string;
+  error?: string;
+  createdAt: string;
+}
+
+export interface Conversation {
+  id: string;
+  // The DreamFactory user the conversation belongs to
+  userId: string;
+  title: string;
+  pinned?: boolean;
+  messages: ChatMessage[];
+  // The messages as shown in the chat, for reopening it later
+  transcript: TranscriptEntry[];
+  // Proposed writes awaiting or having received a decision
+  changes?: RecordChange[];
+  summary?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A saved conversation as listed in the history sidebar
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  pinned: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A read-only snapshot of a conversation, or of one answer and its question
+export interface Share {
+  id: string;
+  ownerId: string;
+  conversationId: string;
+  // Set when a single answer was shared
+  messageId?: string;
+  title: string;
+  entries: TranscriptEntry[];
+  // Services and tables ("db/employees") the answers read; viewers need access to all of them
+  resources: string[];
+  createdAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+}
+
+export type ShareSummary = Omit<Share, 'ownerId' | 'entries'>;
+
+// A single DreamFactory API request made while executing a tool
+export interface DreamFactoryRequestLog {
+  method: string;
+  url: string;
+  status: number | null;
+  durationMs: number;
+  // Answered from the schema cache instead of DreamFactory
+  cached?: boolean;
+}
+
+// One tool call in the answer's execution trace
+export interface TraceStep {
+  id: string;
+  tool: string;
+  args: Record<string, any>;
+  requests: DreamFactoryRequestLog[];
+  durationMs: number;
+  rowCount?: number;
+  preview: string;
+  error?: string;
+}
+
+// The DreamFactory query behind a result table, re-run in full for exports
+export interface ExportQuery {
+  serviceName: string;
+  tableName: string;
+  filter?: FilterNode;
+  fields?: string[];
+  order?: string;
+  related?: string;
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+// The answer whose result table is exported, in one of the user's
+// conversations or in a share link's snapshot. The query is looked up on
+// the server.
+export type ExportSource =
+  | { conversationId: string; messageId: string }
+  | { shareId: string; messageId: string };
+
+// The rows behind an answer, from the last queryTable or searchTableByField
+// call that returned records
+export interface ResultTable {
+  serviceName: string;
+  tableName: string;
+  columns: string[];
+  rows: Record<string, any>[];
+  // Rows matching the query, when DreamFactory reported a count
+  total?: number;
+  offset: number;
+  query: ExportQuery;
+}
+
+export type ChartType = 'bar' | 'line' | 'area' | 'pie';
+
+// Rows a chart can be drawn from: queryTable records, or aggregateTable
+// groups flattened into one row each
+export interface ChartDataset {
+  tableName: string;
+  rows: Record<string, any>[];
+  // aggregateTable counts and sums, which still add up when groups are merged
+  additiveFields?: string[];
+}
+
+// A chart ready to draw: one row per x value with the x value under `x` and
+// each series' value under its key
+export interface ChartData {
+  type: ChartType;
+  title: string;
+  xLabel: string;
+  series: { key: string; label: string }[];
+  rows: Record<string, string | number | null>[];
+  // Set when points or series were left out
+  note?: string;
+}
+
+// A chat message as displayed, with the data shown alongside answers
+export interface TranscriptEntry {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  thinking?: string;
+  // DreamFactory URLs requested while answering
+  endpoints?: string[];
+  trace?: TraceStep[];
+  changes?: RecordChange[];
+  table?: ResultTable;
+  charts?: ChartData[];
+  // Services and tables ("db/employees") read while answering, recorded on
+  // the server for share access checks
+  resources?: string[];
+}
+
+export interface ChatTurnResult {
+  message: string;
+  thinking: string;
+  endpoints: string[];
+  trace: TraceStep[];
+  changes: RecordChange[];
+  table?: ResultTable;
+  charts?: ChartData[];
+  conversationId: string;
+  // The answer's id within the conversation's transcript
+  messageId: string;
+}
+
+// Server-sent events emitted by /api/chat when streaming is requested
+export type ChatStreamEvent =
+  | { type: 'tool_start'; id: string; name: string; args: Record<string, any> }
+  | { type: 'tool_end'; id: string; name: string; error?: string; step: TraceStep }
+  | { type: 'endpoint'; url: string }
+  | { type: 'token'; content: string }
+  | ({ type: 'done' } & ChatTurnResult)
+  | { type: 'error'; error: string; errorType: string };
+
 export interface ChatResponse {
   message: string;
+  conversationId?: string;
   error?: string;
 } 
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DreamFactoryTool } from '@/lib/dreamfactory';
+import { DREAMFACTORY_URL, reply, useDreamFactory } from './helpers/dreamfactory';
+
+// A salaries table that ignores aggregate fields, so rows are aggregated here
+let salaries: Record<string, any>[] = [];
+const pageRequests: number[] = [];
+
+function dreamFactory(url: URL): Response {
+  switch (url.pathname) {
+    case '/api/v2/db/_schema':
+      return reply({ resource: [{ name: 'salaries' }] });
+    case '/api/v2/db/_schema/salaries':
+      return reply({
+        name: 'salaries',
+        primary_key: ['id'],
+        field: [
+          { name: 'id', type: 'id', is_primary_key: true },
+          { name: 'dept_no', type: 'string' },
+          { name: 'salary', type: 'decimal' },
+          { name: 'grade', type: 'string' },
+        ],
+      });
+    case '/api/v2/db/_table/salaries': {
+      const offset = Number(url.searchParams.get('offset') || 0);
+      const limit = Number(url.searchParams.get('limit') || salaries.length);
+      // Only the paging requests, not the aggregate query tried first
+      if (!url.searchParams.get('fields')?.includes('(')) pageRequests.push(offset);
+      return reply({
+        resource: salaries.slice(offset, offset + limit),
+        ...(url.searchParams.get('include_count') && { meta: { count: salaries.length } }),
+      });
+    }
+    default:
+      return reply({ resource: [] });
+  }
+}
+
+describe('DreamFactoryTool.aggregateTable on fetched rows', () => {
+  useDreamFactory(dreamFactory);
+
+  beforeEach(() => {
+    pageRequests.length = 0;
+  });
+
+  it('groups rows and averages only numeric values', async () => {
+    salaries = [
+      { id: 1, dept_no: 'd001', salary: '100.50', grade: 'A' },
+      { id: 2, dept_no: 'd001', salary: 200, grade: 'B' },
+      { id: 3, dept_no: 'd002', salary: null, grade: 'A' },
+      { id: 4, dept_no: 'd002', salary: 'n/a', grade: 'C' },
+    ];
+
+    const result = await new DreamFactoryTool(DREAMFACTORY_URL).aggregateTable('db', 'salaries', {
+      metrics: [{ function: 'count' }, { function: 'avg', field: 'salary' }, { function: 'sum', field: 'salary' }, { function: 'max', field: 'grade' }],
+      groupBy: ['dept_no'],
+    });
+
+    expect(result).toMatchObject({ method: 'client', rowsScanned: 4, total: 4, partial: false });
+    expect(result.groups).toEqual([
+      { group: { dept_no: 'd001' }, values: { count_all: 2, avg_salary: 150.25, sum_salary: 300.5, max_grade: 'B' } },
+      // Without a numeric salary there is no sum or average
+      { group: { dept_no: 'd002' }, values: { count_all: 2, avg_salary: null, sum_salary: null, max_grade: 'C' } },
+    ]);
+  });
+
+  it('stops paging at the deadline and marks the result partial', async () => {
+    salaries = Array.from({ length: 2500 }, (_, index) => ({ id: index + 1, dept_no: 'd001', salary: 1 }));
+
+    const result = await new DreamFactoryTool(DREAMFACTORY_URL).aggregateTable(
+      'db',
+      'salaries',
+      { metrics: [{ function: 'sum', field: 'salary' }] },
+      Date.now() - 1
+    );
+
+    expect(pageRequests).toEqual([0]);
+    expect(result).toMatchObject({ method: 'client', rowsScanned: 1000, total: 2500, partial: true });
+    expect(result.groups[0].values.sum_salary).toBe(1000);
+    expect(result.note).toContain('before the time budget ran out');
+  });
+
+  it('scans every page when there is time', async () => {
+    salaries = Array.from({ length: 2500 }, (_, index) => ({ id: index + 1, dept_no: 'd001', salary: 1 }));
+
+    const result = await new DreamFactoryTool(DREAMFACTORY_URL).aggregateTable(
+      'db',
+      'salaries',
+      { metrics: [{ function: 'sum', field: 'salary' }] },
+      Date.now() + 60000
+    );
+
+    expect(pageRequests).toEqual([0, 1000, 2000]);
+    expect(result).toMatchObject({ rowsScanned: 2500, partial: false });
+    expect(result.groups[0].values.sum_salary).toBe(2500);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryCacheStore, SchemaCache } from '@/lib/cache';
+
+describe('SchemaCache.invalidate', () => {
+  it('drops every schema of a service whose name needs encoding', async () => {
+    const store = new MemoryCacheStore();
+    const cache = new SchemaCache('http://dreamfactory.test', 'admin', store);
+    await cache.set('sales%20db/_schema', { resource: [] });
+    await cache.set('sales%20db/_relationships', { tables: {} });
+    await cache.set('sales%20db/_columns', { columns: [] });
+    await cache.set('hr/_schema', { resource: [] });
+    await new Promise(resolve => setTimeout(resolve, 2));
+
+    await cache.invalidate('sales db');
+
+    // A new SchemaCache, as the next request would have, reads the markers from the store
+    const next = new SchemaCache('http://dreamfactory.test', 'admin', store);
+    expect(await next.get('sales%20db/_schema')).toBeUndefined();
+    expect(await next.get('sales%20db/_relationships')).toBeUndefined();
+    expect(await next.get('sales%20db/_columns')).toBeUndefined();
+    expect(await next.get('hr/_schema')).toEqual({ resource: [] });
+  });
+});
@@ -0,0 +1,196 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CompletionRequest } from '@/lib/llm';
+import { reply, useDreamFactory } from './helpers/dreamfactory';
+
+// The model proposes one new note, then answers once the tool has run
+vi.mock('@/lib/llm', () => ({
+  createProviderFromEnv: () => ({
+    complete: async ({ messages }: CompletionRequest) => {
+      if (messages[messages.length - 1].role === 'tool') {
+        return { content: 'Answer: The note is ready for your approval.', toolCalls: [] };
+      }
+      return {
+        content: null,
+        toolCalls: [{
+          id: 'call-1',
+          name: 'proposeRecordChange',
+          arguments: JSON.stringify({
+            serviceName: 'db',
+            tableName: 'notes',
+            operation: 'create',
+            records: [{ text: 'Call the supplier' }],
+            summary: 'Add the note "Call the supplier"',
+          }),
+        }],
+      };
+    },
+  }),
+}));
+
+// Just enough of DreamFactory for one service with a notes table
+const created: unknown[] = [];
+let failWrites = false;
+function dreamFactory(url: URL, init?: RequestInit): Response {
+  switch (url.pathname) {
+    case '/api/v2/user/session':
+      return reply({ id: 7, role_id: 2, session_token: 'session-1' });
+    case '/api/v2':
+      return reply({ services: [{ id: 1, name: 'db', label: 'Database', type: 'mysql' }] });
+    case '/api/v2/db/_schema':
+      return reply({ resource: [{ name: 'notes' }] });
+    case '/api/v2/db/_schema/notes':
+      return reply({
+        name: 'notes',
+        primary_key: ['id'],
+        field: [
+          { name: 'id', type: 'id', is_primary_key: true },
+          { name: 'text', type: 'string' },
+        ],
+      });
+    case '/api/v2/db/_table/notes':
+      if (init?.method === 'POST') {
+        if (failWrites) return reply({ error: { message: 'Database unavailable' } }, 503);
+        created.push(...JSON.parse(String(init.body)).resource);
+        return reply({ resource: [{ id: created.length }] });
+      }
+      return reply({ resource: [] });
+    default:
+      return reply({ resource: [] });
+  }
+}
+
+function post(url: string, body: unknown): Request {
+  return new Request(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Cookie: 'df_session_token=session-1' },
+    body: JSON.stringify(body),
+  });
+}
+
+// Runs a chat turn in which the model proposes a note, returning the turn
+async function proposeNote(): Promise<{ conversationId: string; changes: { id: string }[] }> {
+  const chat = await import('@/app/api/chat/route');
+  const response = await chat.POST(post('http://localhost/api/chat', { message: 'Add a note to call the supplier' }));
+  return response.json();
+}
+
+async function decide(conversationId: string, changeId: string, approve: boolean): Promise<Response> {
+  const changes = await import('@/app/api/chat/changes/route');
+  return changes.POST(post('http://localhost/api/chat/changes', { conversationId, changeId, approve }));
+}
+
+describe('record changes', () => {
+  useDreamFactory(dreamFactory, { SERPER_API_KEY: 'serper-key' });
+
+  beforeEach(() => {
+    created.length = 0;
+    failWrites = false;
+  });
+
+  it('applies a change proposed in chat once it is approved', async () => {
+    const chat = await import('@/app/api/chat/route');
+    const changes = await import('@/app/api/chat/changes/route');
+
+    const chatResponse = await chat.POST(post('http://localhost/api/chat', { message: 'Add a note to call the supplier' }));
+    expect(chatResponse.status).toBe(200);
+    const turn = await chatResponse.json();
+    expect(turn.changes).toHaveLength(1);
+    expect(turn.changes[0]).toMatchObject({ operation: 'create', status: 'pending' });
+    expect(created).toHaveLength(0);
+
+    const approval = await changes.POST(post('http://localhost/api/chat/changes', {
+      conversationId: turn.conversationId,
+      changeId: turn.changes[0].id,
+      approve: true,
+    }));
+    expect(approval.status).toBe(200);
+    expect((await approval.json()).change.status).toBe('applied');
+    expect(created).toEqual([{ text: 'Call the supplier' }]);
+
+    // A second approval finds the change already decided
+    const again = await changes.POST(post('http://localhost/api/chat/changes', {
+      conversationId: turn.conversationId,
+      changeId: turn.changes[0].id,
+      approve: true,
+    }));
+    expect(again.status).toBe(409);
+  });
+
+  it('applies a change only once when it is approved twice at the same time', async () => {
+    const turn = await proposeNote();
+
+    const responses = await Promise.all([
+      decide(turn.conversationId, turn.changes[0].id, true),
+      decide(turn.conversationId, turn.changes[0].id, true),
+    ]);
+
+    expect(responses.map(response => response.status).sort()).toEqual([200, 409]);
+    expect(created).toHaveLength(1);
+  });
+
+  it('lets either an approval or a rejection win, not both', async () => {
+    const turn = await proposeNote();
+
+    const [approval, rejection] = await Promise.all([
+      decide(turn.conversationId, turn.changes[0].id, true),
+      decide(turn.conversationId, turn.changes[0].id, false),
+    ]);
+
+    if (approval.status === 200) {
+      expect(rejection.status).toBe(409);
+      expect(created).toHaveLength(1);
+    } else {
+      expect(approval.status).toBe(409);
+      expect((await rejection.json()).change.status).toBe('rejected');
+      expect(created).toHaveLength(0);
+    }
+  });
+
+  it('records a failed apply and lets the user approve it again', async () => {
+    const turn = await proposeNote();
+
+    failWrites = true;
+    const failed = await decide(turn.conversationId, turn.changes[0].id, true);
+    expect(failed.status).toBe(502);
+    const { change, step } = await failed.json();
+    expect(change).toMatchObject({ status: 'failed', error: 'Database unavailable' });
+    expect(step.error).toBe('Database unavailable');
+    expect(created).toHaveLength(0);
+
+    failWrites = false;
+    const retried = await decide(turn.conversationId, turn.changes[0].id, true);
+    expect(retried.status).toBe(200);
+    expect((await retried.json()).change).toMatchObject({ status: 'applied' });
+    expect(created).toEqual([{ text: 'Call the supplier' }]);
+  });
+
+  it('treats a change left applying by an interrupted request as failed', async () => {
+    const { getConversationBackend } = await import('@/lib/conversations');
+    const turn = await proposeNote();
+
+    // The request that claimed the change never finished
+    const backend = getConversationBackend();
+    const stored = (await backend.get('7', turn.conversationId))!;
+    stored.changes![0].status = 'applying';
+    stored.changes![0].applyingSince = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+    await backend.put(stored);
+
+    const approval = await decide(turn.conversationId, turn.changes[0].id, true);
+    expect(approval.status).toBe(200);
+    expect(created).toHaveLength(1);
+  });
+
+  it('keeps a change being applied by another request', async () => {
+    const { getConversationBackend } = await import('@/lib/conversations');
+    const turn = await proposeNote();
+
+    const backend = getConversationBackend();
+    const stored = (await backend.get('7', turn.conversationId))!;
+    stored.changes![0].status = 'applying';
+    stored.changes![0].applyingSince = new Date().toISOString();
+    await backend.put(stored);
+
+    expect((await decide(turn.conversationId, turn.changes[0].id, true)).status).toBe(409);
+    expect(created).toHaveLength(0);
+  });
+});
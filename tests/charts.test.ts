@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ChartBuilder, ChartError } from '@/lib/charts';
+import type { AggregateResult, ChartDataset } from '@/lib/types';
+
+// aggregateTable grouped by department and gender
+const byDepartmentAndGender: AggregateResult = {
+  method: 'server',
+  groups: [
+    { group: { dept_name: 'Sales', gender: 'F' }, values: { count_all: 3, avg_salary: 60000 } },
+    { group: { dept_name: 'Sales', gender: 'M' }, values: { count_all: 1, avg_salary: 80000 } },
+    { group: { dept_name: 'Research', gender: 'F' }, values: { count_all: 2, avg_salary: 70000 } },
+  ],
+  note: '',
+};
+
+function aggregateDataset(): ChartDataset[] {
+  return [ChartBuilder.toDataset('aggregateTable', { tableName: 'employees' }, byDepartmentAndGender)!];
+}
+
+describe('ChartBuilder.build', () => {
+  it('draws one point per x value of grouped rows', () => {
+    const chart = ChartBuilder.build(
+      { type: 'bar', title: 'Employees by gender', x: 'gender', y: ['count_all'], series: 'dept_name' },
+      aggregateDataset()
+    );
+
+    expect(chart.series).toEqual([{ key: 's0', label: 'Sales' }, { key: 's1', label: 'Research' }]);
+    expect(chart.rows).toEqual([{ x: 'F', s0: 3, s1: 2 }, { x: 'M', s0: 1 }]);
+    expect(chart.note).toBeUndefined();
+  });
+
+  it('adds up counts of groups with the same x value', () => {
+    const chart = ChartBuilder.build(
+      { type: 'bar', title: 'Employees by department', x: 'dept_name', y: ['count_all'] },
+      aggregateDataset()
+    );
+
+    expect(chart.rows).toEqual([{ x: 'Sales', s0: 4 }, { x: 'Research', s0: 2 }]);
+    expect(chart.note).toContain('Counts and sums of groups with the same dept_name were added up.');
+  });
+
+  it('refuses to add up averages of groups with the same x value', () => {
+    const build = () => ChartBuilder.build(
+      { type: 'bar', title: 'Average salary by department', x: 'dept_name', y: ['avg_salary'] },
+      aggregateDataset()
+    );
+
+    expect(build).toThrow(ChartError);
+    expect(build).toThrow('Call aggregateTable grouped by dept_name');
+  });
+
+  it('refuses to add up raw values of fetched records', () => {
+    const datasets: ChartDataset[] = [{
+      tableName: 'salaries',
+      rows: [{ dept_no: 'd001', salary: 100 }, { dept_no: 'd001', salary: 200 }],
+    }];
+
+    expect(() => ChartBuilder.build({ type: 'bar', title: 'Salaries', x: 'dept_no', y: ['salary'] }, datasets))
+      .toThrow(ChartError);
+  });
+
+  it('rejects a y field without numeric values', () => {
+    const datasets: ChartDataset[] = [{ tableName: 'departments', rows: [{ dept_no: 'd001', dept_name: 'Sales' }] }];
+
+    expect(() => ChartBuilder.build({ type: 'pie', title: 'Departments', x: 'dept_no', y: ['dept_name'] }, datasets))
+      .toThrow('dept_name has no numeric values to plot');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { chatEventStream } from '@/lib/chat-stream';
+import type { ChatStreamEvent } from '@/lib/types';
+
+const done: ChatStreamEvent = {
+  type: 'done',
+  message: 'There are 3 employees.',
+  thinking: '',
+  endpoints: [],
+  trace: [],
+  changes: [],
+  conversationId: 'conversation-1',
+  messageId: 'answer-1',
+};
+
+async function eventsOf(response: Response): Promise<ChatStreamEvent[]> {
+  const text = await response.text();
+  return text.split('\n\n').filter(Boolean).map(event => JSON.parse(event.replace(/^data: /, '')));
+}
+
+describe('chatEventStream', () => {
+  it('sends the progress events, then the done event', async () => {
+    const response = chatEventStream(async send => {
+      send({ type: 'tool_start', id: 'call-1', name: 'queryTable', args: { tableName: 'employees' } });
+      send({ type: 'endpoint', url: 'http://dreamfactory.test/api/v2/db/_table/employees' });
+      send({ type: 'token', content: 'There are' });
+      return done;
+    }, () => ({ type: 'error', error: 'Failed', errorType: 'internal_error' }));
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect((await eventsOf(response)).map(event => event.type)).toEqual(['tool_start', 'endpoint', 'token', 'done']);
+  });
+
+  it('ends with an error event when the turn fails', async () => {
+    const response = chatEventStream(async send => {
+      send({ type: 'token', content: 'There are' });
+      throw new Error('Model unavailable');
+    }, error => ({ type: 'error', error: (error as Error).message, errorType: 'internal_error' }));
+
+    expect(await eventsOf(response)).toEqual([
+      { type: 'token', content: 'There are' },
+      { type: 'error', error: 'Model unavailable', errorType: 'internal_error' },
+    ]);
+  });
+
+  it('drops the events sent after the client went away', async () => {
+    let finish!: () => void;
+    const finished = new Promise<void>(resolve => { finish = resolve; });
+    let sent: Promise<void> = Promise.resolve();
+
+    const response = chatEventStream(send => {
+      sent = (async () => {
+        await finished;
+        send({ type: 'token', content: 'late' });
+      })();
+      return sent.then(() => done);
+    }, () => ({ type: 'error', error: 'Failed', errorType: 'internal_error' }));
+
+    await response.body!.cancel();
+    finish();
+
+    await expect(sent).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { AccessDeniedError, DreamFactoryTool } from '@/lib/dreamfactory';
+import { SessionExpiredError } from '@/lib/auth';
+import { ColumnIndex } from '@/lib/columns';
+
+// A service whose customers schema fails with the given error
+function serviceFailingWith(error: Error) {
+  return {
+    listTables: async () => ['orders', 'customers'],
+    getTableSchema: async (_serviceName: string, table: string) => {
+      if (table === 'customers') throw error;
+      return { name: 'orders', field: [{ name: 'order_id', type: 'id' }] };
+    },
+  } as unknown as DreamFactoryTool;
+}
+
+describe('ColumnIndex.collect', () => {
+  it('leaves out tables the role may not read', async () => {
+    const data = await ColumnIndex.collect(serviceFailingWith(new AccessDeniedError('Forbidden', 'db/customers')), 'db');
+
+    expect(data.columns).toEqual([{ table: 'orders', column: 'order_id', label: undefined, type: 'id' }]);
+  });
+
+  it('fails instead of indexing part of the service', async () => {
+    await expect(ColumnIndex.collect(serviceFailingWith(new SessionExpiredError()), 'db')).rejects.toBeInstanceOf(SessionExpiredError);
+    await expect(ColumnIndex.collect(serviceFailingWith(new TypeError('fetch failed')), 'db')).rejects.toThrow('fetch failed');
+  });
+});
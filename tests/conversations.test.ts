@@ -0,0 +1,201 @@
+import { mkdtemp, rename, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  ConversationOwnershipError,
+  ConversationStore,
+  DreamFactoryConversationBackend,
+  MemoryConversationBackend,
+} from '@/lib/conversations';
+import { FileConversationBackend } from '@/lib/conversation-files';
+import { DreamFactoryRequestError, DreamFactoryTool } from '@/lib/dreamfactory';
+import type { ChatMessage, Conversation } from '@/lib/types';
+
+function turn(question: string, toolResult: string): ChatMessage[] {
+  return [
+    { role: 'user', content: question },
+    { role: 'assistant', content: '', toolCalls: [{ id: 'call', name: 'queryTable', arguments: '{}' }] },
+    { role: 'tool', content: toolResult, name: 'queryTable', toolCallId: 'call' },
+    { role: 'assistant', content: `Answer to ${question}` },
+  ];
+}
+
+describe('ConversationStore.saveUpdate', () => {
+  it('applies the update again to a copy saved by another request', async () => {
+    const backend = new MemoryConversationBackend();
+    const store = new ConversationStore('user-1', backend);
+    const conversation = store.create();
+    await store.save(conversation);
+
+    // Another request saves the conversation after this one loaded it
+    const other = (await store.get(conversation.id))!;
+    other.title = 'Renamed meanwhile';
+    await new Promise(resolve => setTimeout(resolve, 2));
+    await store.save(other);
+
+    let attempts = 0;
+    const saved = await store.saveUpdate(conversation, latest => {
+      attempts++;
+      latest.messages.push({ role: 'user', content: 'How many employees are there?' });
+    });
+
+    expect(attempts).toBe(2);
+    const stored = await store.get(conversation.id);
+    expect(stored).toMatchObject({ title: 'Renamed meanwhile', messages: [{ content: 'How many employees are there?' }] });
+    expect(saved?.updatedAt).toBe(stored?.updatedAt);
+  });
+
+  it('stores a new conversation without a previous copy', async () => {
+    const store = new ConversationStore('user-1', new MemoryConversationBackend());
+    const conversation = store.create();
+
+    await store.saveUpdate(conversation, latest => {
+      latest.title = 'First question';
+    });
+
+    expect((await store.get(conversation.id))?.title).toBe('First question');
+  });
+
+  it('gives up without saving when the update returns false', async () => {
+    const store = new ConversationStore('user-1', new MemoryConversationBackend());
+    const conversation = store.create();
+
+    expect(await store.saveUpdate(conversation, () => false)).toBeUndefined();
+    expect(await store.get(conversation.id)).toBeUndefined();
+  });
+});
+
+describe('ConversationStore.compact', () => {
+  it('keeps the replayed history under budget when the recent turns are large', async () => {
+    const store = new ConversationStore('user-1', new MemoryConversationBackend());
+    const conversation = store.create();
+    for (let index = 0; index < 6; index++) {
+      conversation.messages.push(...turn(`Question ${index}`, 'x'.repeat(20000)));
+    }
+
+    const summarized: ChatMessage[][] = [];
+    await ConversationStore.compact(conversation, async older => {
+      summarized.push(older);
+      return 'Earlier questions about employees';
+    });
+
+    const size = ConversationStore.toHistory(conversation).reduce((total, msg) => total + msg.content.length, 0);
+    expect(size).toBeLessThanOrEqual(48000 + 100);
+    expect(conversation.summary).toBe('Earlier questions about employees');
+    expect(conversation.messages[0]).toMatchObject({ role: 'user' });
+    expect(summarized[0].filter(msg => msg.role === 'user')).toHaveLength(2);
+  });
+
+  it('leaves short histories untouched', async () => {
+    const store = new ConversationStore('user-1', new MemoryConversationBackend());
+    const conversation = store.create();
+    conversation.messages.push(...turn('Question', 'short result'));
+
+    await ConversationStore.compact(conversation, async () => {
+      throw new Error('should not summarize');
+    });
+
+    expect(conversation.messages).toHaveLength(4);
+    expect(conversation.summary).toBeUndefined();
+  });
+});
+
+describe('ConversationStore.saveCompacted', () => {
+  async function longConversation(store: ConversationStore): Promise<Conversation> {
+    const conversation = store.create();
+    for (let index = 0; index < 6; index++) {
+      conversation.messages.push(...turn(`Question ${index}`, 'x'.repeat(20000)));
+    }
+    await store.save(conversation);
+    return conversation;
+  }
+
+  it('summarizes once and stores the compacted history', async () => {
+    const store = new ConversationStore('user-1', new MemoryConversationBackend());
+    const conversation = await longConversation(store);
+    const summarize = vi.fn(async () => 'Earlier questions about employees');
+
+    await store.saveCompacted(conversation, summarize);
+
+    const stored = await store.get(conversation.id);
+    expect(summarize).toHaveBeenCalledTimes(1);
+    expect(stored?.summary).toBe('Earlier questions about employees');
+    expect(stored?.messages.length).toBeLessThan(24);
+  });
+
+  it('drops the compaction when another turn was saved meanwhile', async () => {
+    const backend = new MemoryConversationBackend();
+    const store = new ConversationStore('user-1', backend);
+    const conversation = await longConversation(store);
+
+    await store.saveCompacted(conversation, async () => {
+      const other = (await new ConversationStore('user-1', backend).get(conversation.id))!;
+      other.messages.push(...turn('Another question', 'result'));
+      await new Promise(resolve => setTimeout(resolve, 2));
+      await new ConversationStore('user-1', backend).save(other);
+      return 'Earlier questions about employees';
+    });
+
+    const stored = await store.get(conversation.id);
+    expect(stored?.summary).toBeUndefined();
+    expect(stored?.messages).toHaveLength(28);
+  });
+});
+
+function conversationOf(userId: string, title: string): Conversation {
+  const now = new Date().toISOString();
+  return { id: 'conversation-1', userId, title, messages: [], transcript: [], createdAt: now, updatedAt: now };
+}
+
+describe('conversation ownership', () => {
+  it('keeps another user\'s conversation in memory', async () => {
+    const backend = new MemoryConversationBackend();
+    await backend.put(conversationOf('user-1', 'Mine'));
+
+    await expect(backend.put(conversationOf('user-2', 'Taken'))).rejects.toBeInstanceOf(ConversationOwnershipError);
+    await expect(backend.putIfUnchanged(conversationOf('user-2', 'Taken'))).rejects.toBeInstanceOf(ConversationOwnershipError);
+    expect((await backend.get('user-1', 'conversation-1'))?.title).toBe('Mine');
+    expect(await backend.get('user-2', 'conversation-1')).toBeUndefined();
+  });
+
+  it('keeps another user\'s conversation file', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'conversations-'));
+    try {
+      const backend = new FileConversationBackend(directory);
+      await backend.put(conversationOf('user-1', 'Mine'));
+      // A file that ended up in another user's directory
+      await backend.put(conversationOf('user-2', 'Empty'));
+      await rename(
+        path.join(directory, 'user-1', 'conversation-1.json'),
+        path.join(directory, 'user-2', 'conversation-1.json')
+      );
+
+      expect(await backend.get('user-2', 'conversation-1')).toBeUndefined();
+      expect(await backend.list('user-2')).toEqual([]);
+      await expect(backend.put(conversationOf('user-2', 'Taken'))).rejects.toBeInstanceOf(ConversationOwnershipError);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('reports an id taken in the DreamFactory table by another user', async () => {
+    // The table holds user-1's conversation-1; filters are the field values joined
+    const tool = {
+      compileServiceFilter: async (_serviceName: string, filter: any) =>
+        JSON.stringify(filter.op === 'and' ? filter.conditions.map((condition: any) => condition.value) : [filter.value]),
+      queryTable: async (_serviceName: string, _tableName: string, { filter }: { filter: string }) => {
+        const values: string[] = JSON.parse(filter);
+        const row = { id: 'conversation-1', user_id: 'user-1', title: 'Mine' };
+        return { resource: values.every(value => value === row.id || value === row.user_id) ? [row] : [] };
+      },
+      writeRecords: async () => {
+        throw new DreamFactoryRequestError('Duplicate entry for key PRIMARY', 400);
+      },
+    } as unknown as DreamFactoryTool;
+    const backend = new DreamFactoryConversationBackend(tool, 'db', 'df_chat_conversations');
+
+    await expect(backend.put(conversationOf('user-2', 'Taken'))).rejects.toBeInstanceOf(ConversationOwnershipError);
+    await expect(backend.putIfUnchanged(conversationOf('user-2', 'Taken'))).rejects.toBeInstanceOf(ConversationOwnershipError);
+  });
+});
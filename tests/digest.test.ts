@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DreamFactoryTool } from '@/lib/dreamfactory';
+import { SessionExpiredError } from '@/lib/auth';
+import { SchemaDigest } from '@/lib/digest';
+import { DREAMFACTORY_URL, reply, useDreamFactory } from './helpers/dreamfactory';
+
+// The status the employees schema answers with
+let employeesStatus = 200;
+
+function dreamFactory({ pathname }: URL): Response {
+  switch (pathname) {
+    case '/api/v2/':
+      return reply({ services: [{ name: 'db', label: 'Database', type: 'mysql' }, { name: 'email', label: 'Email', type: 'smtp_email' }] });
+    case '/api/v2/db/_schema':
+      return reply({ resource: [{ name: 'employees' }] });
+    case '/api/v2/db/_schema/employees':
+      if (employeesStatus !== 200) return reply({ error: { message: 'Failed' } }, employeesStatus);
+      return reply({ name: 'employees', field: [{ name: 'emp_no', type: 'id', is_primary_key: true }] });
+    case '/api/v2/email/_schema':
+      return reply({ error: { message: "Resource '_schema' not found for service 'email'." } }, 400);
+    default:
+      return reply({ error: { message: 'Not found' } }, 404);
+  }
+}
+
+describe('SchemaDigest.build', () => {
+  useDreamFactory(dreamFactory);
+
+  beforeEach(() => {
+    employeesStatus = 200;
+  });
+
+  it('lists services without tables apart from the described tables', async () => {
+    const digest = await SchemaDigest.build(new DreamFactoryTool(DREAMFACTORY_URL));
+
+    expect(digest).toContain('employees: emp_no int PK');
+    expect(digest).toContain('Other services without tables: email');
+  });
+
+  it('fails instead of leaving out tables when the server fails', async () => {
+    employeesStatus = 500;
+
+    await expect(SchemaDigest.build(new DreamFactoryTool(DREAMFACTORY_URL))).rejects.toThrow('Failed');
+  });
+
+  it('passes on an expired session', async () => {
+    employeesStatus = 401;
+
+    await expect(SchemaDigest.build(new DreamFactoryTool(DREAMFACTORY_URL))).rejects.toBeInstanceOf(SessionExpiredError);
+  });
+});
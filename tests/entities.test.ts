@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DreamFactoryRequestError, DreamFactoryTool } from '@/lib/dreamfactory';
+import { SessionExpiredError } from '@/lib/auth';
+import { ColumnIndex } from '@/lib/columns';
+import { EntitySearch } from '@/lib/entities';
+import type { FilterNode } from '@/lib/filters';
+
+// A service of tables with a name column, whose queries fail with `error`
+function serviceOf(tables: string[], error?: Error) {
+  const queried: string[] = [];
+  const tool = {
+    getColumnIndex: async () => new ColumnIndex({
+      columns: tables.map(table => ({ table, column: 'name', type: 'string' })),
+    }),
+    getPrimaryKey: async () => ['id'],
+    buildFilter: async () => "(name like 'Georgi%')",
+    queryTable: async (_serviceName: string, table: string) => {
+      queried.push(table);
+      if (error) throw error;
+      return { resource: [{ id: 1, name: 'Georgi' }] };
+    },
+  } as unknown as DreamFactoryTool;
+  return { tool, queried };
+}
+
+describe('EntitySearch.run', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('searches at most six of the tables it is given', async () => {
+    const tables = Array.from({ length: 9 }, (_, index) => `table${index + 1}`);
+    const { tool, queried } = serviceOf(tables);
+
+    const result = await EntitySearch.run(tool, 'db', 'Georgi', tables);
+
+    expect(new Set(queried).size).toBe(6);
+    expect(result.note).toContain('Only 6 of 9 tables with name columns were searched; pass the others in another search.');
+  });
+
+  it('skips a table that fails but not an expired session', async () => {
+    const failing = serviceOf(['employees'], new DreamFactoryRequestError('Invalid filter', 400));
+    expect((await EntitySearch.run(failing.tool, 'db', 'Georgi')).hits).toEqual([]);
+
+    const expired = serviceOf(['employees'], new SessionExpiredError());
+    await expect(EntitySearch.run(expired.tool, 'db', 'Georgi')).rejects.toBeInstanceOf(SessionExpiredError);
+
+    const unavailable = serviceOf(['employees'], new DreamFactoryRequestError('Service unavailable', 503));
+    await expect(EntitySearch.run(unavailable.tool, 'db', 'Georgi')).rejects.toThrow('Service unavailable');
+  });
+
+  it('finds accented names where the database tells accented letters apart', async () => {
+    const tool = {
+      getColumnIndex: async () => new ColumnIndex({ columns: [{ table: 'people', column: 'name', type: 'string' }] }),
+      getPrimaryKey: async () => ['id'],
+      buildFilter: async (_serviceName: string, _table: string, filter: FilterNode) => JSON.stringify(filter),
+      // Only the pattern with wildcards for the letters matches "José"
+      queryTable: async (_serviceName: string, _table: string, { filter }: { filter: string }) => ({
+        resource: filter.includes('J_s_') ? [{ id: 1, name: 'José Pérez' }, { id: 2, name: 'Josu Ortiz' }] : [],
+      }),
+    } as unknown as DreamFactoryTool;
+
+    const result = await EntitySearch.run(tool, 'db', 'Jose');
+
+    expect(result.hits).toMatchObject([{ primaryKey: { id: 1 }, score: 1 }]);
+  });
+});
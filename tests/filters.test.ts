@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { compileFilter, escapeLike, filterDialectFor, quoteValue } from '@/lib/filters';
+
+describe('quoteValue', () => {
+  it('doubles single quotes', () => {
+    expect(quoteValue("O'Brien")).toBe("'O''Brien'");
+  });
+
+  it('doubles backslashes', () => {
+    expect(quoteValue('C:\\temp')).toBe("'C:\\\\temp'");
+  });
+
+  it('keeps a trailing backslash inside the quotes', () => {
+    expect(quoteValue('ends with \\')).toBe("'ends with \\\\'");
+  });
+
+  it('keeps a backslash before a quote from escaping it', () => {
+    expect(quoteValue("\\' or 1=1 --")).toBe("'\\\\'' or 1=1 --'");
+  });
+
+  it('keeps backslashes where the database reads them literally', () => {
+    expect(quoteValue('C:\\temp', 'standard')).toBe("'C:\\temp'");
+    expect(quoteValue("\\' or 1=1 --", 'standard')).toBe("'\\'' or 1=1 --'");
+  });
+
+  it('leaves numbers and booleans unquoted', () => {
+    expect(quoteValue(42)).toBe('42');
+    expect(quoteValue(false)).toBe('false');
+  });
+});
+
+describe('compileFilter', () => {
+  it('quotes values containing backslashes and quotes', () => {
+    expect(compileFilter({ op: 'eq', field: 'name', value: "a\\'b" }, ['name'])).toBe("(name = 'a\\\\''b')");
+  });
+
+  it('escapes like patterns before quoting them', () => {
+    expect(compileFilter({ op: 'like', field: 'path', value: `${escapeLike('50%\\')}%` }))
+      .toBe("(path like '50\\\\%\\\\\\\\%')");
+  });
+});
+
+describe('compileFilter for other databases', () => {
+  it('leaves backslashes in compared values alone', () => {
+    expect(compileFilter({ op: 'eq', field: 'path', value: 'a\\b' }, undefined, 'standard')).toBe("(path = 'a\\b')");
+  });
+
+  it('keeps the default backslash escape in PostgreSQL patterns', () => {
+    expect(compileFilter({ op: 'like', field: 'path', value: `${escapeLike('50%\\')}%` }, undefined, 'pgsql'))
+      .toBe("(path like '50\\%\\\\%')");
+  });
+
+  it('escapes wildcards in SQL Server patterns with brackets', () => {
+    expect(compileFilter({ op: 'like', field: 'code', value: `${escapeLike('50%_[a]\\')}%` }, undefined, 'sqlsrv'))
+      .toBe("(code like '50[%][_][[]a]\\%')");
+    expect(compileFilter({ op: 'not', condition: { op: 'like', field: 'name', value: 'a%' } }, undefined, 'sqlsrv'))
+      .toBe("(name not like 'a%')");
+  });
+
+  it('matches literal wildcards as any single character without a default escape', () => {
+    expect(compileFilter({ op: 'like', field: 'code', value: `${escapeLike('50%_\\')}%` }, undefined, 'standard'))
+      .toBe("(code like '50__\\%')");
+  });
+});
+
+describe('filterDialectFor', () => {
+  it('reads each service type with its database\'s escaping', () => {
+    expect(filterDialectFor('mysql')).toBe('mysql');
+    expect(filterDialectFor('sqlsrv')).toBe('sqlsrv');
+    expect(filterDialectFor('pgsql')).toBe('pgsql');
+    expect(filterDialectFor('sqlite')).toBe('standard');
+    expect(filterDialectFor(undefined)).toBe('mysql');
+  });
+});
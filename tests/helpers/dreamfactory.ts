@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, vi } from 'vitest';
+
+// Shared setup for tests that run against a fake DreamFactory server
+
+export const DREAMFACTORY_URL = 'http://dreamfactory.test';
+
+// The cookies of the browser making the request, signed in as session-1
+// before each test (see tests/setup.ts, which serves them as next/headers)
+export const cookieJar = new Map<string, string>();
+
+export const cookieStore = {
+  get: (name: string) => (cookieJar.has(name) ? { name, value: cookieJar.get(name)! } : undefined),
+  set: (name: string, value: string) => {
+    cookieJar.set(name, value);
+  },
+  delete: (name: string) => {
+    cookieJar.delete(name);
+  },
+};
+
+export function signIn(): void {
+  cookieJar.clear();
+  cookieJar.set('df_session_token', 'session-1');
+}
+
+export function reply(body: unknown, status: number = 200): Response {
+  return Response.json(body, { status });
+}
+
+// Answers the app's DreamFactory requests with `handler` in every test of
+// the calling suite, with DREAMFACTORY_URL, an app key and any other `env`
+// set. Errors the code under test logs are silenced.
+export function useDreamFactory(
+  handler: (url: URL, init?: RequestInit) => Response | Promise<Response>,
+  env: Record<string, string> = {}
+): void {
+  beforeEach(() => {
+    vi.stubEnv('DREAMFACTORY_URL', DREAMFACTORY_URL);
+    vi.stubEnv('DREAMFACTORY_API_KEY', 'app-key');
+    for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value);
+    vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => handler(new URL(String(input)), init)));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+}
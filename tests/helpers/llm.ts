@@ -0,0 +1,24 @@
+import type { CompletionRequest, CompletionResult, LLMProvider } from '@/lib/llm';
+import type { ChatToolCall } from '@/lib/types';
+
+// A model that answers each turn with the next of `turns`, or with what
+// `turns` returns for the request, and keeps a copy of every request
+export function scriptedProvider(
+  turns: CompletionResult[] | ((request: CompletionRequest, turn: number) => CompletionResult)
+): LLMProvider & { requests: CompletionRequest[] } {
+  const requests: CompletionRequest[] = [];
+  return {
+    requests,
+    async complete(request) {
+      requests.push({ ...request, messages: structuredClone(request.messages) });
+      const turn = requests.length - 1;
+      const result = typeof turns === 'function' ? turns(request, turn) : turns[turn];
+      if (!result) throw new Error(`No model turn scripted for turn ${turn + 1}`);
+      return result;
+    },
+  };
+}
+
+export function toolCall(id: string, name: string, args: Record<string, unknown>): ChatToolCall {
+  return { id, name, arguments: JSON.stringify(args) };
+}
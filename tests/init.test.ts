@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { GET, POST } from '@/app/api/init/route';
+import { CredentialResolver } from '@/lib/credentials';
+import { cookieJar, reply, useDreamFactory } from './helpers/dreamfactory';
+
+// Accepts only the keys of the configured apps
+function dreamFactory(_url: URL, init?: RequestInit): Response {
+  const apiKey = new Headers(init?.headers).get('X-DreamFactory-API-Key');
+  if (apiKey !== 'sales-key' && apiKey !== 'hr-key') {
+    return reply({ error: { message: 'Invalid API key' } }, 401);
+  }
+  return reply({ services: [{ name: 'db' }] });
+}
+
+function select(body: unknown): Promise<Response> {
+  return POST(new Request('http://localhost/api/init', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }));
+}
+
+describe('/api/init', () => {
+  useDreamFactory(dreamFactory, {
+    DREAMFACTORY_API_KEY: '',
+    DREAMFACTORY_APPS: JSON.stringify({ sales: 'sales-key', hr: 'hr-key' }),
+  });
+
+  beforeEach(() => {
+    cookieJar.clear();
+  });
+
+  it('lists the configured apps until one is selected', async () => {
+    expect(await (await GET()).json()).toEqual({
+      apps: ['sales', 'hr'],
+      hasDefaultKey: false,
+      hasApiKey: false,
+      selectedApp: null,
+    });
+  });
+
+  it('stores the selected app by name, without its key', async () => {
+    cookieJar.set(CredentialResolver.API_KEY_COOKIE, 'old-key');
+
+    expect((await select({ app: 'hr' })).status).toBe(200);
+
+    expect(cookieJar.get(CredentialResolver.APP_COOKIE)).toBe('hr');
+    expect(cookieJar.has(CredentialResolver.API_KEY_COOKIE)).toBe(false);
+    expect(CredentialResolver.getApiKey()).toBe('hr-key');
+    expect(await (await GET()).json()).toMatchObject({ hasApiKey: true, selectedApp: 'hr' });
+  });
+
+  it('rejects an app that is not configured', async () => {
+    const response = await select({ app: 'constructor' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('No API key is configured for the DreamFactory app "constructor"');
+    expect(cookieJar.size).toBe(0);
+  });
+
+  it('stores an entered key once DreamFactory accepts it', async () => {
+    expect((await select({ apiKey: 'sales-key' })).status).toBe(200);
+    expect(cookieJar.get(CredentialResolver.API_KEY_COOKIE)).toBe('sales-key');
+
+    cookieJar.clear();
+    expect((await select({ apiKey: 'wrong-key' })).status).toBe(401);
+    expect(cookieJar.size).toBe(0);
+  });
+});
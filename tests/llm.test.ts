@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AnthropicProvider, createProviderFromEnv, OpenAIProvider, type ToolDefinition } from '@/lib/llm';
+import type { ChatMessage } from '@/lib/types';
+
+const listTables: ToolDefinition = {
+  name: 'listTables',
+  description: 'Lists the tables of a service',
+  parameters: { type: 'object', properties: { serviceName: { type: 'string' } }, required: ['serviceName'] },
+};
+
+// A first turn that called listTables, and the tool's result
+const messages: ChatMessage[] = [
+  { role: 'system', content: 'You answer questions about DreamFactory data.' },
+  { role: 'user', content: 'Which tables are there?' },
+  {
+    role: 'assistant',
+    content: '',
+    toolCalls: [{ id: 'call-1', name: 'listTables', arguments: '{"serviceName":"db"}' }],
+  },
+  { role: 'tool', content: '["employees"]', name: 'listTables', toolCallId: 'call-1' },
+  { role: 'system', content: 'Answer briefly.' },
+];
+
+describe('createProviderFromEnv', () => {
+  it('uses OpenAI unless another provider is configured', () => {
+    expect(createProviderFromEnv({ OPENAI_API_KEY: 'sk-test' })).toBeInstanceOf(OpenAIProvider);
+    expect(() => createProviderFromEnv({})).toThrow('Missing OPENAI_API_KEY environment variable');
+  });
+
+  it('needs a base URL and a model for an OpenAI-compatible server', () => {
+    expect(createProviderFromEnv({
+      LLM_PROVIDER: 'openai-compatible',
+      OPENAI_BASE_URL: 'http://localhost:8080/v1',
+      LLM_MODEL: 'llama-3.1-8b',
+    })).toBeInstanceOf(OpenAIProvider);
+    expect(() => createProviderFromEnv({ LLM_PROVIDER: 'openai-compatible', LLM_MODEL: 'llama-3.1-8b' }))
+      .toThrow('Missing OPENAI_BASE_URL environment variable');
+    expect(() => createProviderFromEnv({ LLM_PROVIDER: 'openai-compatible', OPENAI_BASE_URL: 'http://localhost:8080/v1' }))
+      .toThrow('Missing LLM_MODEL environment variable');
+  });
+
+  it('selects Anthropic by name', () => {
+    expect(createProviderFromEnv({ LLM_PROVIDER: 'anthropic', ANTHROPIC_API_KEY: 'anthropic-key' }))
+      .toBeInstanceOf(AnthropicProvider);
+    expect(() => createProviderFromEnv({ LLM_PROVIDER: 'anthropic' }))
+      .toThrow('Missing ANTHROPIC_API_KEY environment variable');
+    expect(() => createProviderFromEnv({ LLM_PROVIDER: 'gemini' })).toThrow('Unknown LLM_PROVIDER: gemini');
+  });
+});
+
+describe('AnthropicProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function stubAnthropic(response: Response) {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => response);
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  }
+
+  it('sends tools, tool calls and tool results in the Messages API form', async () => {
+    const fetchMock = stubAnthropic(Response.json({
+      content: [
+        { type: 'text', text: 'Let me look at the employees.' },
+        { type: 'tool_use', id: 'toolu_1', name: 'queryTable', input: { tableName: 'employees' } },
+      ],
+    }));
+
+    const result = await new AnthropicProvider('anthropic-key', 'claude-test', 'https://anthropic.test/')
+      .complete({ messages, tools: [listTables] });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://anthropic.test/v1/messages');
+    expect(new Headers(init.headers).get('x-api-key')).toBe('anthropic-key');
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'claude-test',
+      max_tokens: 4096,
+      system: 'You answer questions about DreamFactory data.\n\nAnswer briefly.',
+      messages: [
+        { role: 'user', content: [{ type: 'text', text: 'Which tables are there?' }] },
+        { role: 'assistant', content: [{ type: 'tool_use', id: 'call-1', name: 'listTables', input: { serviceName: 'db' } }] },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call-1', content: '["employees"]' }] },
+      ],
+      tools: [{ name: 'listTables', description: 'Lists the tables of a service', input_schema: listTables.parameters }],
+      tool_choice: { type: 'auto' },
+      stream: false,
+    });
+    expect(result).toEqual({
+      content: 'Let me look at the employees.',
+      toolCalls: [{ id: 'toolu_1', name: 'queryTable', arguments: '{"tableName":"employees"}' }],
+    });
+  });
+
+  it('streams text tokens and assembles tool input', async () => {
+    const events = [
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Checking ' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'the tables.' } },
+      { type: 'content_block_stop', index: 0 },
+      { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'listTables', input: {} } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"serviceName":' } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"db"}' } },
+      { type: 'content_block_stop', index: 1 },
+    ];
+    const fetchMock = stubAnthropic(new Response(events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('')));
+    const tokens: string[] = [];
+
+    const result = await new AnthropicProvider('anthropic-key', 'claude-test')
+      .complete({ messages: messages.slice(0, 2), tools: [listTables], toolChoice: 'none', onToken: token => tokens.push(token) });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body as string)).toMatchObject({ tool_choice: { type: 'none' }, stream: true });
+    expect(tokens).toEqual(['Checking ', 'the tables.']);
+    expect(result).toEqual({
+      content: 'Checking the tables.',
+      toolCalls: [{ id: 'toolu_1', name: 'listTables', arguments: '{"serviceName":"db"}' }],
+    });
+  });
+
+  it('passes on the error message of a failed request', async () => {
+    stubAnthropic(Response.json({ error: { type: 'authentication_error', message: 'invalid x-api-key' } }, { status: 401 }));
+
+    await expect(new AnthropicProvider('wrong-key', 'claude-test').complete({ messages }))
+      .rejects.toThrow('invalid x-api-key');
+  });
+});
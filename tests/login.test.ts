@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { POST as login } from '@/app/api/auth/login/route';
+import { GET as start } from '@/app/api/auth/oauth/route';
+import { GET as callback } from '@/app/api/auth/oauth/callback/route';
+import { GET as listServices } from '@/app/api/auth/services/route';
+import { AuthService } from '@/lib/auth';
+import { cookieJar, reply, useDreamFactory } from './helpers/dreamfactory';
+
+const session = {
+  session_token: 'session-2',
+  id: 7,
+  email: 'ada@example.com',
+  name: 'Ada Lovelace',
+  first_name: 'Ada',
+  last_name: 'Lovelace',
+  last_login_date: '2024-05-01 09:00:00',
+  host: 'dreamfactory.test',
+  role: 'Sales',
+};
+
+// An instance that logs in by username, with an LDAP service and a GitHub
+// OAuth service
+const requests: { url: URL; method: string; body?: unknown }[] = [];
+
+function dreamFactory(url: URL, init?: RequestInit): Response {
+  const method = init?.method || 'GET';
+  requests.push({ url, method, body: init?.body && JSON.parse(String(init.body)) });
+
+  if (url.pathname === '/api/v2/system/environment') {
+    return reply({
+      authentication: {
+        login_attribute: 'username',
+        adldap: [{ name: 'ldap', label: 'Company directory' }],
+        oauth: [{ name: 'github' }],
+      },
+    });
+  }
+  if (url.pathname === '/api/v2/user/session') {
+    const service = url.searchParams.get('service');
+    if (method === 'POST' && service === 'github') {
+      return reply({ response: { url: 'https://github.com/login/oauth/authorize?state=state-1' } });
+    }
+    if (method === 'GET' && url.searchParams.get('code') === 'code-1') {
+      return reply(session);
+    }
+    if (method === 'POST' && service === 'ldap') {
+      return (init?.body && JSON.parse(String(init.body)).password === 'secret')
+        ? reply(session)
+        : reply({ error: { message: 'Invalid credentials supplied.' } }, 401);
+    }
+  }
+  return reply({ error: { message: 'Not found' } }, 404);
+}
+
+function post(body: unknown): Request {
+  return new Request('http://localhost/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('login routes', () => {
+  useDreamFactory(dreamFactory);
+
+  beforeEach(() => {
+    cookieJar.clear();
+    requests.length = 0;
+  });
+
+  it('lists the login services of the instance', async () => {
+    expect(await (await listServices()).json()).toEqual({
+      loginAttribute: 'username',
+      services: [
+        { name: '', label: 'DreamFactory', type: 'password' },
+        { name: 'ldap', label: 'Company directory', type: 'ldap' },
+        { name: 'github', label: 'github', type: 'oauth' },
+      ],
+    });
+  });
+
+  it('logs in to an LDAP service by username', async () => {
+    const response = await login(post({ username: 'ada', password: 'secret', service: 'ldap' }));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).user).toMatchObject({ id: 7, role: 'Sales' });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url.searchParams.get('service')).toBe('ldap');
+    expect(requests[0].body).toEqual({ username: 'ada', password: 'secret' });
+    expect(cookieJar.get(AuthService.SESSION_COOKIE)).toBe('session-2');
+  });
+
+  it('passes on why an LDAP login failed', async () => {
+    const response = await login(post({ username: 'ada', password: 'wrong', service: 'ldap' }));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Invalid credentials supplied.' });
+    expect(cookieJar.has(AuthService.SESSION_COOKIE)).toBe(false);
+  });
+
+  it('sends the browser to the OAuth provider and remembers the service', async () => {
+    const response = await start(new Request('http://localhost/api/auth/oauth?service=github'));
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get('Location')).toBe('https://github.com/login/oauth/authorize?state=state-1');
+    expect(cookieJar.get(AuthService.OAUTH_SERVICE_COOKIE)).toBe('github');
+  });
+
+  it('exchanges the OAuth callback for a session', async () => {
+    cookieJar.set(AuthService.OAUTH_SERVICE_COOKIE, 'github');
+
+    const response = await callback(new Request('http://localhost/api/auth/oauth/callback?code=code-1&state=state-1'));
+
+    expect(response.headers.get('Location')).toBe('http://localhost/');
+    expect(Object.fromEntries(requests[0].url.searchParams)).toEqual({
+      code: 'code-1',
+      state: 'state-1',
+      oauth_callback: 'true',
+      service: 'github',
+    });
+    expect(cookieJar.get(AuthService.SESSION_COOKIE)).toBe('session-2');
+    expect(cookieJar.has(AuthService.OAUTH_SERVICE_COOKIE)).toBe(false);
+  });
+
+  it('returns to the login form when the OAuth login has expired or was refused', async () => {
+    const expired = await callback(new Request('http://localhost/api/auth/oauth/callback?code=code-1'));
+    expect(new URL(expired.headers.get('Location')!).searchParams.get('login_error'))
+      .toBe('The OAuth login expired. Please try again.');
+
+    cookieJar.set(AuthService.OAUTH_SERVICE_COOKIE, 'github');
+    const refused = await callback(new Request('http://localhost/api/auth/oauth/callback?error=access_denied'));
+    expect(new URL(refused.headers.get('Location')!).searchParams.get('login_error')).toBe('access_denied');
+
+    expect(requests).toHaveLength(0);
+    expect(cookieJar.has(AuthService.SESSION_COOKIE)).toBe(false);
+  });
+});
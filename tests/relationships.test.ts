@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { DreamFactoryRequestError, DreamFactoryTool } from '@/lib/dreamfactory';
+import { RelationshipGraph } from '@/lib/relationships';
+import { DREAMFACTORY_URL, reply, useDreamFactory } from './helpers/dreamfactory';
+
+// Tables t1..t250, where each table belongs to the one before it
+const TABLE_COUNT = 250;
+const tableNames = Array.from({ length: TABLE_COUNT }, (_, index) => `t${index + 1}`);
+
+function tableSchema(name: string) {
+  const number = Number(name.slice(1));
+  return {
+    name,
+    field: [
+      { name: 'id', type: 'id', is_primary_key: true },
+      ...(number > 1 ? [{ name: 'parent_id', type: 'integer', is_foreign_key: true, ref_table: `t${number - 1}`, ref_field: 'id' }] : []),
+    ],
+  };
+}
+
+function dreamFactory({ pathname }: URL): Response {
+  if (pathname === '/api/v2/db/_schema') {
+    return reply({ resource: tableNames.map(name => ({ name })) });
+  }
+  const table = pathname.match(/^\/api\/v2\/db\/_schema\/(t\d+)$/)?.[1];
+  if (table) return reply(tableSchema(table));
+  return reply({ error: { message: 'Not found' } }, 404);
+}
+
+describe('RelationshipGraph.collect', () => {
+  useDreamFactory(dreamFactory);
+
+  it('reports paths as partial when the service has more tables than the graph reads', async () => {
+    const tool = new DreamFactoryTool(DREAMFACTORY_URL);
+
+    const path = await tool.findJoinPath('db', 't5', 't1');
+    expect(path.steps).toHaveLength(4);
+    expect(path.partial).toBe(true);
+    expect(path.note).toContain('Only the relationships of the first 200 of the service\'s 250 tables were read');
+  });
+
+  it('reads the relationships of a table past the graph from its own schema', async () => {
+    const tool = new DreamFactoryTool(DREAMFACTORY_URL);
+
+    expect(await tool.getRelatedTables('db', 't230', '*')).toEqual(['t229']);
+  });
+
+  it('fails instead of leaving out a table whose schema could not be read', async () => {
+    const tool = {
+      listTables: async () => ['orders', 'customers'],
+      getTableSchema: async (_serviceName: string, table: string) => {
+        if (table === 'customers') throw new DreamFactoryRequestError('Service unavailable', 503);
+        return tableSchema('t1');
+      },
+    } as unknown as DreamFactoryTool;
+
+    await expect(RelationshipGraph.collect(tool, 'db')).rejects.toThrow('Service unavailable');
+  });
+
+  it('leaves out a table the role may not read', async () => {
+    const tool = {
+      listTables: async () => ['orders', 'customers'],
+      getTableSchema: async (_serviceName: string, table: string) => {
+        if (table === 'customers') throw new DreamFactoryRequestError('Not found', 404);
+        return { name: 'orders', field: [{ name: 'customer_id', is_foreign_key: true, ref_table: 'customers', ref_field: 'id' }] };
+      },
+    } as unknown as DreamFactoryTool;
+
+    const graph = await RelationshipGraph.collect(tool, 'db');
+    expect(graph.edges).toMatchObject([{ from: 'orders', to: 'customers', relationship: 'customers_by_customer_id' }]);
+    expect(graph.unreadTables).toBeUndefined();
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { DreamFactoryTool } from '@/lib/dreamfactory';
+
+function rows(count: number, width: number = 10) {
+  return Array.from({ length: count }, (_, index) => ({ id: index + 1, name: 'x'.repeat(width) }));
+}
+
+describe('DreamFactoryTool.toResultPage', () => {
+  it('returns every row of a small page with the next offset', () => {
+    const page = DreamFactoryTool.toResultPage({ resource: rows(100), meta: { count: 250 } }, { limit: 100, offset: 0 });
+
+    expect(page).toMatchObject({ total: 250, returned: 100, truncated: false, nextOffset: 100, columns: ['id', 'name'] });
+    expect(page.note).toContain('Showing rows 1-100 of 250.');
+    expect(page.note).toContain('offset=100');
+  });
+
+  it('cuts the page to the rows that fit the size budget and continues after them', () => {
+    const page = DreamFactoryTool.toResultPage({ resource: rows(100, 1000), meta: { count: 100 } }, { limit: 100, offset: 0 });
+
+    expect(page.truncated).toBe(true);
+    expect(page.returned).toBeLessThan(100);
+    expect(page.nextOffset).toBe(page.returned);
+    expect(JSON.stringify(page.records).length).toBeLessThanOrEqual(16000);
+  });
+
+  it('shortens the values of a single row that is over the budget', () => {
+    const wide = { id: 7, notes: 'n'.repeat(40000), tags: Array.from({ length: 5000 }, (_, index) => `tag${index}`) };
+    const resource: Record<string, any>[] = [wide, ...rows(3)];
+    const page = DreamFactoryTool.toResultPage({ resource }, { limit: 100, offset: 0 });
+
+    // The rows after it still fit the budget
+    expect(page.returned).toBe(4);
+    expect(page.truncated).toBe(false);
+    expect(page.records[0].id).toBe(7);
+    expect(page.records[0].notes).toMatch(/shortened\]$/);
+    expect(JSON.stringify(page.records[0]).length).toBeLessThanOrEqual(16000 + 100);
+    expect(page.note).toContain('Row 1 is too large to return whole, so its notes, tags values were shortened');
+  });
+
+  it('reports an empty page past the end', () => {
+    const page = DreamFactoryTool.toResultPage({ resource: [], meta: { count: 20 } }, { limit: 100, offset: 40 });
+
+    expect(page).toMatchObject({ returned: 0, nextOffset: undefined });
+    expect(page.note).toBe('No rows found at offset 40.');
+  });
+});
@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AccessDeniedError, DreamFactoryTool } from '@/lib/dreamfactory';
+import { DREAMFACTORY_URL, reply, useDreamFactory } from './helpers/dreamfactory';
+
+// The role may use the db and hr services, but not read hr's tables
+const requests: string[] = [];
+
+function dreamFactory({ pathname }: URL): Response {
+  requests.push(pathname);
+  switch (pathname) {
+    case '/api/v2/':
+      return reply({ services: [{ name: 'db', label: 'Database', type: 'mysql' }, { name: 'hr', label: 'HR', type: 'mysql' }] });
+    case '/api/v2/db/_schema':
+      return reply({ resource: [{ name: 'employees' }, { name: '_private' }] });
+    case '/api/v2/hr/_schema':
+    case '/api/v2/hr/_table':
+      return reply({ error: { message: 'Access Forbidden' } }, 403);
+    default:
+      return reply({ error: { message: 'Not found' } }, 404);
+  }
+}
+
+describe('DreamFactoryTool.listServices', () => {
+  useDreamFactory(dreamFactory);
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  it('lists services without reading the tables of each', async () => {
+    const services = await new DreamFactoryTool(DREAMFACTORY_URL).listServices();
+
+    expect(services.map(service => service.name)).toEqual(['db', 'hr']);
+    expect(requests).toEqual(['/api/v2/']);
+  });
+
+  it('leaves out a service once it has answered 403', async () => {
+    const tool = new DreamFactoryTool(DREAMFACTORY_URL);
+
+    expect(await tool.listTables('db')).toEqual(['employees']);
+    await expect(tool.listTables('hr')).rejects.toBeInstanceOf(AccessDeniedError);
+
+    expect((await tool.listServices()).map(service => service.name)).toEqual(['db']);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { GET } from '@/app/api/auth/session/route';
+import { POST as logout } from '@/app/api/auth/logout/route';
+import { AuthService } from '@/lib/auth';
+import { cookieJar, reply, useDreamFactory } from './helpers/dreamfactory';
+
+// session-1 belongs to a user of the Sales role; any other token has expired
+const requests: { method: string; sessionToken: string | null }[] = [];
+
+function dreamFactory({ pathname }: URL, init?: RequestInit): Response {
+  const sessionToken = new Headers(init?.headers).get('X-DreamFactory-Session-Token');
+  requests.push({ method: init?.method || 'GET', sessionToken });
+  if (pathname !== '/api/v2/user/session') {
+    return reply({ error: { message: 'Not found' } }, 404);
+  }
+  if (sessionToken !== 'session-1') {
+    return reply({ error: { message: 'Token has expired' } }, 401);
+  }
+  return init?.method === 'DELETE'
+    ? reply({ success: true })
+    : reply({
+      session_token: 'session-1',
+      id: 7,
+      email: 'ada@example.com',
+      name: 'Ada Lovelace',
+      first_name: 'Ada',
+      last_name: 'Lovelace',
+      last_login_date: '2024-05-01 09:00:00',
+      host: 'dreamfactory.test',
+      role: 'Sales',
+    });
+}
+
+describe('/api/auth/session', () => {
+  useDreamFactory(dreamFactory);
+
+  it('returns the logged-in user', async () => {
+    const response = await GET();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      authenticated: true,
+      user: {
+        id: 7,
+        email: 'ada@example.com',
+        name: 'Ada Lovelace',
+        first_name: 'Ada',
+        last_name: 'Lovelace',
+        role: 'Sales',
+      },
+    });
+  });
+
+  it('answers 401 without a session cookie', async () => {
+    cookieJar.clear();
+
+    const response = await GET();
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ authenticated: false });
+  });
+
+  it('answers 401 once DreamFactory has expired the session', async () => {
+    cookieJar.set(AuthService.SESSION_COOKIE, 'session-2');
+
+    const response = await GET();
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ authenticated: false });
+  });
+
+  it('ends the DreamFactory session and removes the cookie on logout', async () => {
+    requests.length = 0;
+
+    expect((await logout()).status).toBe(200);
+
+    expect(requests).toEqual([{ method: 'DELETE', sessionToken: 'session-1' }]);
+    expect(cookieJar.has(AuthService.SESSION_COOKIE)).toBe(false);
+  });
+});
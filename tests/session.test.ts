@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AuthService, SessionExpiredError } from '@/lib/auth';
+import { DreamFactoryTool } from '@/lib/dreamfactory';
+import { cookieJar, DREAMFACTORY_URL, reply, useDreamFactory } from './helpers/dreamfactory';
+
+// A DreamFactory session token (a JWT) that expires `minutes` from now
+function sessionToken(minutes: number, id: string = 'session'): string {
+  const payload = btoa(JSON.stringify({ sub: id, exp: Math.floor(Date.now() / 1000) + minutes * 60 }));
+  return `header.${payload.replace(/=+$/, '')}.signature`;
+}
+
+const refreshed = sessionToken(60, 'refreshed');
+
+// How DreamFactory answers a refresh, set by each test
+let refreshStatus = 200;
+let refreshes = 0;
+
+function dreamFactory({ pathname }: URL, init?: RequestInit): Response {
+  if (pathname === '/api/v2/user/session' && init?.method === 'PUT') {
+    refreshes++;
+    return refreshStatus === 200
+      ? reply({ session_token: refreshed, id: 1 })
+      : reply({ error: { message: 'Token has expired' } }, refreshStatus);
+  }
+  if (pathname === '/api/v2/db/_schema') {
+    return reply({ error: { message: 'Token has expired' } }, 401);
+  }
+  return reply({ error: { message: 'Not found' } }, 404);
+}
+
+describe('AuthService.ensureFreshSession', () => {
+  useDreamFactory(dreamFactory);
+
+  beforeEach(() => {
+    refreshStatus = 200;
+    refreshes = 0;
+  });
+
+  function signInWith(token: string) {
+    cookieJar.set(AuthService.SESSION_COOKIE, token);
+  }
+
+  it('keeps a token that is far from expiring', async () => {
+    const token = sessionToken(30);
+    signInWith(token);
+
+    expect(await new AuthService(DREAMFACTORY_URL).ensureFreshSession()).toBe(token);
+    expect(refreshes).toBe(0);
+  });
+
+  it('refreshes a token about to expire and stores the new one', async () => {
+    signInWith(sessionToken(5));
+
+    expect(await new AuthService(DREAMFACTORY_URL).ensureFreshSession()).toBe(refreshed);
+    expect(refreshes).toBe(1);
+    expect(cookieJar.get(AuthService.SESSION_COOKIE)).toBe(refreshed);
+  });
+
+  it('reports the session as expired when DreamFactory refuses the refresh', async () => {
+    signInWith(sessionToken(5));
+    refreshStatus = 401;
+
+    await expect(new AuthService(DREAMFACTORY_URL).ensureFreshSession()).rejects.toBeInstanceOf(SessionExpiredError);
+  });
+
+  it('keeps a still valid token when the refresh fails for another reason', async () => {
+    const token = sessionToken(5);
+    signInWith(token);
+    refreshStatus = 500;
+
+    expect(await new AuthService(DREAMFACTORY_URL).ensureFreshSession()).toBe(token);
+  });
+
+  it('reports the session as expired when the token has expired and cannot be refreshed', async () => {
+    signInWith(sessionToken(-1));
+    refreshStatus = 500;
+
+    await expect(new AuthService(DREAMFACTORY_URL).ensureFreshSession()).rejects.toBeInstanceOf(SessionExpiredError);
+  });
+
+  it('reports the session as expired without a session cookie', async () => {
+    cookieJar.clear();
+
+    await expect(new AuthService(DREAMFACTORY_URL).ensureFreshSession()).rejects.toBeInstanceOf(SessionExpiredError);
+    expect(refreshes).toBe(0);
+  });
+});
+
+describe('DreamFactoryTool with an expired session', () => {
+  useDreamFactory(dreamFactory);
+
+  it('reports a 401 from DreamFactory as an expired session', async () => {
+    await expect(new DreamFactoryTool(DREAMFACTORY_URL).listTables('db')).rejects.toBeInstanceOf(SessionExpiredError);
+  });
+
+  it('reports a missing session cookie without asking DreamFactory', async () => {
+    cookieJar.clear();
+
+    await expect(new DreamFactoryTool(DREAMFACTORY_URL).listTables('db')).rejects.toBeInstanceOf(SessionExpiredError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,12 @@
+import { beforeEach, vi } from 'vitest';
+import { signIn } from './helpers/dreamfactory';
+
+// Route handlers and the DreamFactory tool read cookies through next/headers
+vi.mock('next/headers', async () => {
+  const { cookieStore } = await import('./helpers/dreamfactory');
+  return { cookies: () => cookieStore };
+});
+
+beforeEach(() => {
+  signIn();
+});
@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DreamFactoryTool } from '@/lib/dreamfactory';
+import { MemoryShareBackend, ShareStore } from '@/lib/shares';
+import type { Conversation, TranscriptEntry } from '@/lib/types';
+import { DREAMFACTORY_URL, reply, useDreamFactory } from './helpers/dreamfactory';
+
+// The role sees employees, salaries and departments in the schema, but may
+// not read the salaries records
+const tableReads: string[] = [];
+
+function dreamFactory({ pathname }: URL): Response {
+  switch (pathname) {
+    case '/api/v2/':
+      return reply({ services: [{ name: 'db', label: 'Database', type: 'mysql' }] });
+    case '/api/v2/db/_schema':
+      return reply({ resource: [{ name: 'employees' }, { name: 'salaries' }, { name: 'departments' }] });
+    case '/api/v2/db/_schema/employees':
+      return reply({
+        name: 'employees',
+        field: [
+          { name: 'emp_no', type: 'id', is_primary_key: true },
+          { name: 'dept_no', type: 'string', is_foreign_key: true, ref_table: 'departments', ref_field: 'dept_no' },
+        ],
+      });
+    case '/api/v2/db/_schema/salaries':
+    case '/api/v2/db/_schema/departments':
+      return reply({ name: pathname.split('/').pop(), field: [{ name: 'id', type: 'id', is_primary_key: true }] });
+    case '/api/v2/db/_table/employees':
+    case '/api/v2/db/_table/departments':
+      tableReads.push(pathname);
+      return reply({ resource: [{ id: 1 }] });
+    case '/api/v2/db/_table/salaries':
+      tableReads.push(pathname);
+      return reply({ error: { message: 'Access Forbidden' } }, 403);
+    default:
+      return reply({ error: { message: 'Not found' } }, 404);
+  }
+}
+
+function conversationWith(transcript: TranscriptEntry[]): Conversation {
+  const now = new Date().toISOString();
+  return { id: 'conversation-1', userId: 'owner', title: 'Employees', messages: [], transcript, createdAt: now, updatedAt: now };
+}
+
+const answer: TranscriptEntry = {
+  id: 'answer-1',
+  role: 'assistant',
+  content: 'Here are the employees with their departments.',
+  thinking: 'Query employees with their departments.',
+  table: {
+    serviceName: 'db',
+    tableName: 'employees',
+    columns: ['emp_no'],
+    rows: [{ emp_no: 1 }],
+    offset: 0,
+    query: { serviceName: 'db', tableName: 'employees', related: 'departments_by_dept_no' },
+  },
+  resources: ['db', 'db/departments', 'db/employees'],
+};
+
+describe('DreamFactoryTool.getReadResources', () => {
+  useDreamFactory(dreamFactory);
+
+  it('records the tables a related query pulled records from', async () => {
+    const tool = new DreamFactoryTool(DREAMFACTORY_URL);
+
+    await tool.queryTable('db', 'employees', { related: 'departments_by_dept_no', limit: 1 });
+
+    // Resolving `related` read every schema, salaries included, which only counts as using db
+    expect(await tool.getReadResources()).toEqual(['db', 'db/departments', 'db/employees']);
+  });
+
+  it('leaves out requests that failed', async () => {
+    const tool = new DreamFactoryTool(DREAMFACTORY_URL);
+
+    await expect(tool.queryTable('db', 'salaries', { limit: 1 })).rejects.toThrow('Access Forbidden');
+
+    expect(await tool.getReadResources()).toEqual(['db']);
+  });
+});
+
+describe('ShareStore', () => {
+  useDreamFactory(dreamFactory);
+
+  beforeEach(() => {
+    tableReads.length = 0;
+  });
+
+  it('keeps the resources recorded with the answers, but not the reasoning', async () => {
+    const store = new ShareStore('owner', new MemoryShareBackend());
+
+    const share = await store.create(
+      conversationWith([{ id: 'question-1', role: 'user', content: 'Who works where?' }, answer]),
+      { messageId: 'answer-1', expiresInDays: 7 }
+    );
+
+    expect(share?.resources).toEqual(['db', 'db/departments', 'db/employees']);
+    expect(share?.entries[1]).not.toHaveProperty('thinking');
+    expect(share?.entries[1]).not.toHaveProperty('resources');
+  });
+
+  it('lets others view a share only when they can read every table', async () => {
+    const backend = new MemoryShareBackend();
+    const share = (await new ShareStore('owner', backend).create(conversationWith([answer]), { expiresInDays: 7 }))!;
+    const viewer = new ShareStore('viewer', backend);
+
+    expect(await viewer.canView(share, new DreamFactoryTool(DREAMFACTORY_URL))).toBe(true);
+    expect(tableReads).toEqual(['/api/v2/db/_table/departments', '/api/v2/db/_table/employees']);
+
+    // Listed in the schema, but its records are forbidden
+    const withSalaries = { ...share, resources: [...share.resources, 'db/salaries'] };
+    expect(await viewer.canView(withSalaries, new DreamFactoryTool(DREAMFACTORY_URL))).toBe(false);
+  });
+
+  it('shows a share without recorded resources only to its owner', async () => {
+    const backend = new MemoryShareBackend();
+    const { resources: _resources, ...unrecorded } = answer;
+    const share = (await new ShareStore('owner', backend).create(conversationWith([unrecorded]), { expiresInDays: 7 }))!;
+
+    expect(share.resources).toEqual([]);
+    expect(await new ShareStore('viewer', backend).canView(share, new DreamFactoryTool(DREAMFACTORY_URL))).toBe(false);
+    expect(await new ShareStore('owner', backend).canView(share, new DreamFactoryTool(DREAMFACTORY_URL))).toBe(true);
+  });
+
+  it('lets the owner view without checking the tables', async () => {
+    const store = new ShareStore('owner', new MemoryShareBackend());
+    const share = (await store.create(conversationWith([answer]), { expiresInDays: 7 }))!;
+
+    expect(await store.canView({ ...share, resources: ['db/salaries'] }, new DreamFactoryTool(DREAMFACTORY_URL))).toBe(true);
+    expect(tableReads).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { filterAndSortRows, nextSort, pageOf, visiblePages } from '@/lib/table-view';
+
+const columns = ['name', 'office', 'salary'];
+const rows = [
+  { name: 'Item 10', office: 'Berlin', salary: 5200 },
+  { name: 'item 2', office: 'Paris', salary: null },
+  { name: 'Item 1', office: 'berlin', salary: 800 },
+  { name: 'Item 3', office: '', salary: 10000 },
+];
+
+describe('filterAndSortRows', () => {
+  it('sorts numbers by value and text naturally, with empty cells last', () => {
+    const byName = (sort: Parameters<typeof filterAndSortRows>[3]) =>
+      filterAndSortRows(rows, columns, '', sort).map(row => row.name);
+
+    expect(byName({ column: 'name', direction: 'asc' })).toEqual(['Item 1', 'item 2', 'Item 3', 'Item 10']);
+    expect(byName({ column: 'salary', direction: 'asc' })).toEqual(['Item 1', 'Item 10', 'Item 3', 'item 2']);
+    expect(byName({ column: 'salary', direction: 'desc' })).toEqual(['Item 3', 'Item 10', 'Item 1', 'item 2']);
+    expect(byName({ column: 'office', direction: 'desc' })).toEqual(['item 2', 'Item 10', 'Item 1', 'Item 3']);
+  });
+
+  it('keeps the original order without a sort', () => {
+    expect(filterAndSortRows(rows, columns, '', null)).toBe(rows);
+  });
+
+  it('keeps the rows with a column containing the filter, ignoring case', () => {
+    expect(filterAndSortRows(rows, columns, ' BERLIN ', null).map(row => row.name)).toEqual(['Item 10', 'Item 1']);
+    expect(filterAndSortRows(rows, columns, '5200', null).map(row => row.name)).toEqual(['Item 10']);
+    expect(filterAndSortRows(rows, ['name'], 'berlin', null)).toEqual([]);
+  });
+});
+
+describe('nextSort', () => {
+  it('cycles a column through ascending, descending and unsorted', () => {
+    const ascending = nextSort(null, 'name');
+    expect(ascending).toEqual({ column: 'name', direction: 'asc' });
+
+    const descending = nextSort(ascending, 'name');
+    expect(descending).toEqual({ column: 'name', direction: 'desc' });
+
+    expect(nextSort(descending, 'name')).toBeNull();
+    expect(nextSort(descending, 'salary')).toEqual({ column: 'salary', direction: 'asc' });
+  });
+});
+
+describe('pageOf', () => {
+  const numbers = Array.from({ length: 25 }, (_, index) => index + 1);
+
+  it('returns ten rows a page', () => {
+    expect(pageOf(numbers, 1)).toEqual({ rows: numbers.slice(0, 10), currentPage: 1, pageCount: 3 });
+    expect(pageOf(numbers, 3)).toEqual({ rows: [21, 22, 23, 24, 25], currentPage: 3, pageCount: 3 });
+  });
+
+  it('moves to the last page once the filtered rows no longer reach the page', () => {
+    expect(pageOf(numbers.slice(0, 12), 3)).toEqual({ rows: [11, 12], currentPage: 2, pageCount: 2 });
+    expect(pageOf([], 2)).toEqual({ rows: [], currentPage: 1, pageCount: 1 });
+  });
+});
+
+describe('visiblePages', () => {
+  it('shows the first, the last and the pages around the current one', () => {
+    expect(visiblePages(1, 3)).toEqual([1, 2, 3]);
+    expect(visiblePages(5, 10)).toEqual([1, null, 4, 5, 6, null, 10]);
+    expect(visiblePages(1, 10)).toEqual([1, 2, null, 10]);
+  });
+});
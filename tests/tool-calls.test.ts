@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { DreamFactoryTool } from '@/lib/dreamfactory';
+import { OpenAIService } from '@/lib/openai';
+import { DREAMFACTORY_URL, reply, useDreamFactory } from './helpers/dreamfactory';
+import { scriptedProvider, toolCall } from './helpers/llm';
+
+// Schemas answer after a short delay, so that overlapping requests show
+let inFlight = 0;
+let maxInFlight = 0;
+
+async function dreamFactory({ pathname }: URL): Promise<Response> {
+  inFlight++;
+  maxInFlight = Math.max(maxInFlight, inFlight);
+  await new Promise(resolve => setTimeout(resolve, 5));
+  inFlight--;
+
+  switch (pathname) {
+    case '/api/v2/db/_schema':
+      return reply({ resource: [{ name: 'employees' }, { name: 'departments' }] });
+    case '/api/v2/db/_schema/employees':
+    case '/api/v2/db/_schema/departments':
+      return reply({ name: pathname.split('/').pop(), field: [{ name: 'id', type: 'id', is_primary_key: true }] });
+    default:
+      return reply({ error: { message: 'Not found' } }, 404);
+  }
+}
+
+describe('OpenAIService.chat tool calls', () => {
+  useDreamFactory(dreamFactory);
+
+  it('runs the calls of one turn together and answers each by its id', async () => {
+    const provider = scriptedProvider([
+      {
+        content: null,
+        toolCalls: [
+          toolCall('call-1', 'getTableSchema', { serviceName: 'db', tableName: 'employees' }),
+          toolCall('call-2', 'getTableSchema', { serviceName: 'db', tableName: 'departments' }),
+        ],
+      },
+      { content: 'Both tables have an id.', toolCalls: [] },
+    ]);
+    const service = new OpenAIService(provider, new DreamFactoryTool(DREAMFACTORY_URL), 'serper-key');
+
+    const result = await service.chat([{ role: 'user', content: 'What do employees and departments have?' }]);
+
+    expect(result.response).toBe('Both tables have an id.');
+    expect(provider.requests).toHaveLength(2);
+    expect(maxInFlight).toBeGreaterThan(1);
+
+    const [, assistant, ...toolResults] = provider.requests[1].messages;
+    expect(assistant.toolCalls?.map(call => call.id)).toEqual(['call-1', 'call-2']);
+    expect(toolResults.map(({ role, toolCallId }) => ({ role, toolCallId }))).toEqual([
+      { role: 'tool', toolCallId: 'call-1' },
+      { role: 'tool', toolCallId: 'call-2' },
+    ]);
+    expect(JSON.parse(toolResults[0].content).name).toBe('employees');
+    expect(JSON.parse(toolResults[1].content).name).toBe('departments');
+  });
+
+  it('tells the model about arguments that are not valid JSON', async () => {
+    const provider = scriptedProvider([
+      { content: null, toolCalls: [{ id: 'call-1', name: 'listTables', arguments: '{"serviceName": ' }] },
+      { content: 'Sorry, I could not list the tables.', toolCalls: [] },
+    ]);
+    const service = new OpenAIService(provider, new DreamFactoryTool(DREAMFACTORY_URL), 'serper-key');
+
+    await service.chat([{ role: 'user', content: 'Which tables are there?' }]);
+
+    const toolResult = provider.requests[1].messages.find(msg => msg.role === 'tool');
+    expect(JSON.parse(toolResult!.content).error).toMatch(/^invalid JSON arguments/);
+  });
+});
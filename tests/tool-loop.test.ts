@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DreamFactoryTool } from '@/lib/dreamfactory';
+import { OpenAIService, type ToolLoopOptions } from '@/lib/openai';
+import type { CompletionRequest, CompletionResult } from '@/lib/llm';
+import type { ChatStreamEvent } from '@/lib/types';
+import { DREAMFACTORY_URL, reply, useDreamFactory } from './helpers/dreamfactory';
+import { scriptedProvider, toolCall } from './helpers/llm';
+
+// Every service has one table
+function dreamFactory({ pathname }: URL): Response {
+  return pathname.endsWith('/_schema')
+    ? reply({ resource: [{ name: 'employees' }] })
+    : reply({ error: { message: 'Not found' } }, 404);
+}
+
+// A model that asks for the tables of another service on every turn, and
+// answers once tools are no longer offered
+function keepsCallingTools(
+  partialAnswer: (request: CompletionRequest) => CompletionResult = () => ({ content: 'There is an employees table.', toolCalls: [] })
+) {
+  return scriptedProvider((request, turn) => request.toolChoice === 'none'
+    ? partialAnswer(request)
+    : { content: null, toolCalls: [toolCall(`call-${turn}`, 'listTables', { serviceName: `db${turn}` })] });
+}
+
+function serviceFor(provider: ReturnType<typeof scriptedProvider>, options: ToolLoopOptions) {
+  return new OpenAIService(provider, new DreamFactoryTool(DREAMFACTORY_URL), 'serper-key', options);
+}
+
+describe('OpenAIService.chat tool loop', () => {
+  useDreamFactory(dreamFactory);
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('answers with the results so far after the last allowed step', async () => {
+    const provider = keepsCallingTools();
+    const events: ChatStreamEvent[] = [];
+
+    const result = await serviceFor(provider, { maxIterations: 3 })
+      .chat([{ role: 'user', content: 'Find the employees' }], event => events.push(event));
+
+    expect(result.response).toBe(
+      'I stopped after 3 steps (reached the limit of 3 tool steps), here is what I found:\n\nThere is an employees table.'
+    );
+    expect(result.trace.map(step => step.args.serviceName)).toEqual(['db0', 'db1', 'db2']);
+    expect(provider.requests.map(request => request.toolChoice)).toEqual(['auto', 'auto', 'auto', 'none']);
+    expect(provider.requests[3].messages.at(-1)).toMatchObject({ role: 'system' });
+    expect(events.find(event => event.type === 'token')).toEqual({
+      type: 'token',
+      content: 'I stopped after 3 steps (reached the limit of 3 tool steps), here is what I found:\n\n',
+    });
+  });
+
+  it('stops once the time budget is spent', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const provider = keepsCallingTools();
+    const complete = provider.complete.bind(provider);
+    // Each model turn takes 4 seconds
+    provider.complete = request => {
+      vi.setSystemTime(Date.now() + 4000);
+      return complete(request);
+    };
+
+    const result = await serviceFor(provider, { timeBudgetMs: 10000 })
+      .chat([{ role: 'user', content: 'Find the employees' }]);
+
+    expect(result.response).toMatch(/^I stopped after 3 steps \(ran out of the 10s time budget\), here is what I found:/);
+    expect(result.trace).toHaveLength(3);
+  });
+
+  it('stops when the model keeps repeating the same call', async () => {
+    const provider = scriptedProvider((request, turn) => request.toolChoice === 'none'
+      ? { content: 'The db service has an employees table.', toolCalls: [] }
+      : { content: null, toolCalls: [toolCall(`call-${turn}`, 'listTables', { serviceName: 'db' })] });
+
+    const result = await serviceFor(provider, { maxRepeatedCalls: 2 })
+      .chat([{ role: 'user', content: 'Find the employees' }]);
+
+    expect(result.response).toBe(
+      'I stopped after 4 steps (kept repeating identical tool calls), here is what I found:\n\nThe db service has an employees table.'
+    );
+    expect(result.trace.map(step => step.error)).toEqual([
+      undefined,
+      'listTables was already called with these exact arguments. Use the earlier result or try a different approach.',
+      'listTables was already called with these exact arguments. Use the earlier result or try a different approach.',
+      'listTables was already called with these exact arguments. Use the earlier result or try a different approach.',
+    ]);
+    expect(result.trace[1].requests).toEqual([]);
+  });
+
+  it('says so when the partial answer cannot be generated', async () => {
+    const provider = keepsCallingTools(() => {
+      throw new Error('Model unavailable');
+    });
+
+    const result = await serviceFor(provider, { maxIterations: 1 })
+      .chat([{ role: 'user', content: 'Find the employees' }]);
+
+    expect(result.response).toBe(
+      'I stopped after 1 steps (reached the limit of 1 tool steps), here is what I found:\n\n' +
+      'I was not able to summarize the results gathered so far. Please try a more specific question.'
+    );
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { DreamFactoryTool } from '@/lib/dreamfactory';
+import { OpenAIService } from '@/lib/openai';
+import type { ChatStreamEvent } from '@/lib/types';
+import { DREAMFACTORY_URL, reply, useDreamFactory } from './helpers/dreamfactory';
+import { scriptedProvider, toolCall } from './helpers/llm';
+
+const employees = Array.from({ length: 20 }, (_, index) => ({ id: index + 1, name: `Employee number ${index + 1}` }));
+
+function dreamFactory({ pathname }: URL): Response {
+  switch (pathname) {
+    case '/api/v2/db/_table/employees':
+      return reply({ resource: employees, meta: { count: employees.length } });
+    case '/api/v2/db/_schema':
+      return reply({ resource: [{ name: 'employees' }, { name: 'payroll' }] });
+    case '/api/v2/db/_schema/employees':
+      return reply({ name: 'employees', field: [{ name: 'id', type: 'id', is_primary_key: true }, { name: 'name', type: 'string' }] });
+    case '/api/v2/db/_table/payroll':
+      return reply({ error: { message: 'Internal Server Error' } }, 500);
+    default:
+      return reply({ error: { message: 'Not found' } }, 404);
+  }
+}
+
+// Runs the given tool calls, one per turn, and returns the answer's trace
+async function traceOf(...calls: ReturnType<typeof toolCall>[]) {
+  const provider = scriptedProvider([
+    ...calls.map(call => ({ content: null, toolCalls: [call] })),
+    { content: 'Done.', toolCalls: [] },
+  ]);
+  const events: ChatStreamEvent[] = [];
+  const result = await new OpenAIService(provider, new DreamFactoryTool(DREAMFACTORY_URL), 'serper-key')
+    .chat([{ role: 'user', content: 'Who works here?' }], event => events.push(event));
+  return { trace: result.trace, events };
+}
+
+describe('OpenAIService.chat trace', () => {
+  useDreamFactory(dreamFactory);
+
+  it('records the call, its requests, row count and a preview of the result', async () => {
+    const { trace } = await traceOf(
+      toolCall('call-1', 'queryTable', { serviceName: 'db', tableName: 'employees', queryParams: { limit: 20 } })
+    );
+
+    expect(trace).toHaveLength(1);
+    const [step] = trace;
+    expect(step).toMatchObject({
+      id: 'call-1',
+      tool: 'queryTable',
+      args: { serviceName: 'db', tableName: 'employees', queryParams: { limit: 20 } },
+      rowCount: 20,
+    });
+    expect(step.error).toBeUndefined();
+    expect(step.requests).toContainEqual(expect.objectContaining({
+      method: 'GET',
+      url: expect.stringMatching(/^http:\/\/dreamfactory\.test\/api\/v2\/db\/_table\/employees\?.*limit=20/),
+      status: 200,
+    }));
+    expect(step.preview).toHaveLength(501);
+    expect(step.preview).toContain('"records":[{"id":1,"name":"Employee number 1"}');
+    expect(step.preview.endsWith('…')).toBe(true);
+  });
+
+  it('records the error and the status of a failed request', async () => {
+    const { trace } = await traceOf(
+      toolCall('call-1', 'queryTable', { serviceName: 'db', tableName: 'payroll' })
+    );
+
+    expect(trace[0].error).toBeTruthy();
+    expect(trace[0].rowCount).toBeUndefined();
+    expect(trace[0].requests.map(request => request.status)).toContain(500);
+  });
+
+  it('marks schema requests answered from the cache, without reporting them as endpoints', async () => {
+    const { trace, events } = await traceOf(
+      toolCall('call-1', 'getTableSchema', { serviceName: 'db', tableName: 'employees' }),
+      // Other arguments, so that the second call is not answered as a repeat
+      toolCall('call-2', 'getTableSchema', { serviceName: 'db', tableName: 'employees', refresh: false })
+    );
+
+    expect(trace[0].requests.every(request => !request.cached)).toBe(true);
+    expect(trace[1].requests.length).toBeGreaterThan(0);
+    expect(trace[1].requests.every(request => request.cached)).toBe(true);
+    expect(events.filter(event => event.type === 'endpoint')).toHaveLength(trace[0].requests.length);
+  });
+});